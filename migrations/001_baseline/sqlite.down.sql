@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS votes;
+DROP TABLE IF EXISTS news_items;
@@ -0,0 +1,22 @@
+CREATE TABLE IF NOT EXISTS news_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  summary TEXT NOT NULL CHECK(length(summary) <= 200),
+  link TEXT NOT NULL,
+  author TEXT NOT NULL DEFAULT 'Anonymous',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  vote_score INTEGER DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS votes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  news_item_id INTEGER NOT NULL,
+  vote_type TEXT NOT NULL CHECK(vote_type IN ('up', 'down')),
+  voter_ip TEXT NOT NULL,
+  vote_source TEXT NOT NULL DEFAULT 'human' CHECK(vote_source IN ('human', 'machine')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (news_item_id) REFERENCES news_items (id) ON DELETE CASCADE,
+  UNIQUE(news_item_id, voter_ip, vote_source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_vote_score ON news_items(vote_score DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_votes_news_id ON votes(news_item_id);
@@ -0,0 +1,12 @@
+ALTER TABLE news_items ADD COLUMN human_upvotes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_items ADD COLUMN human_downvotes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_items ADD COLUMN machine_upvotes INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_items ADD COLUMN machine_downvotes INTEGER NOT NULL DEFAULT 0;
+
+UPDATE news_items SET
+  human_upvotes = (SELECT COUNT(*) FROM votes WHERE votes.news_item_id = news_items.id AND vote_source = 'human' AND vote_type = 'up'),
+  human_downvotes = (SELECT COUNT(*) FROM votes WHERE votes.news_item_id = news_items.id AND vote_source = 'human' AND vote_type = 'down'),
+  machine_upvotes = (SELECT COUNT(*) FROM votes WHERE votes.news_item_id = news_items.id AND vote_source = 'machine' AND vote_type = 'up'),
+  machine_downvotes = (SELECT COUNT(*) FROM votes WHERE votes.news_item_id = news_items.id AND vote_source = 'machine' AND vote_type = 'down');
+
+UPDATE news_items SET vote_score = human_upvotes + machine_upvotes - human_downvotes - machine_downvotes;
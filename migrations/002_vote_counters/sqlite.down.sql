@@ -0,0 +1,4 @@
+ALTER TABLE news_items DROP COLUMN machine_downvotes;
+ALTER TABLE news_items DROP COLUMN machine_upvotes;
+ALTER TABLE news_items DROP COLUMN human_downvotes;
+ALTER TABLE news_items DROP COLUMN human_upvotes;
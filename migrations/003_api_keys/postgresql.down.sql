@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_votes_api_key_id;
+ALTER TABLE votes DROP COLUMN api_key_id;
+ALTER TABLE news_items DROP COLUMN api_key_id;
+DROP TABLE IF EXISTS api_keys;
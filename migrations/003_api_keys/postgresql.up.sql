@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  key_id TEXT NOT NULL UNIQUE,
+  key_hash TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  agent_name TEXT NOT NULL,
+  scopes TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+
+ALTER TABLE news_items ADD COLUMN api_key_id INTEGER REFERENCES api_keys (id);
+ALTER TABLE votes ADD COLUMN api_key_id INTEGER REFERENCES api_keys (id);
+
+CREATE INDEX IF NOT EXISTS idx_votes_api_key_id ON votes(api_key_id);
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS api_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  key_id TEXT NOT NULL UNIQUE,
+  key_hash TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  agent_name TEXT NOT NULL,
+  scopes TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME,
+  revoked_at DATETIME
+);
+
+-- No REFERENCES clause: SQLite can't drop a column that takes part in a foreign key
+ALTER TABLE news_items ADD COLUMN api_key_id INTEGER;
+ALTER TABLE votes ADD COLUMN api_key_id INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_votes_api_key_id ON votes(api_key_id);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_news_status;
+ALTER TABLE news_items DROP COLUMN status;
@@ -0,0 +1,4 @@
+-- 'published' items appear in feeds; 'hidden' items are kept but only visible to admins
+ALTER TABLE news_items ADD COLUMN status TEXT NOT NULL DEFAULT 'published';
+
+CREATE INDEX IF NOT EXISTS idx_news_status ON news_items(status);
@@ -0,0 +1,4 @@
+-- Rows from before this migration stay NULL until `npm run admin -- news:canonicalize`
+ALTER TABLE news_items ADD COLUMN canonical_url TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_news_canonical_url ON news_items(canonical_url);
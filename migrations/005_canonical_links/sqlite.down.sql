@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_news_canonical_url;
+ALTER TABLE news_items DROP COLUMN canonical_url;
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_flags_news_id;
+DROP TABLE IF EXISTS flags;
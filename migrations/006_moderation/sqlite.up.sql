@@ -0,0 +1,15 @@
+-- news_items.status also takes 'pending' (awaiting review) and 'deleted' (soft delete)
+-- from here on; the column is plain TEXT, so only the flags table is new.
+-- One flag per reporter per item; moderator action resolves the open ones.
+CREATE TABLE IF NOT EXISTS flags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  news_item_id INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK(reason IN ('spam', 'off_topic', 'broken_link', 'duplicate', 'abuse', 'other')),
+  details TEXT CHECK(length(details) <= 500),
+  reporter_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  resolved_at DATETIME,
+  UNIQUE(news_item_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_flags_news_id ON flags(news_item_id);
@@ -0,0 +1,11 @@
+-- Token buckets shared by every instance when RATE_LIMIT_STORE=database.
+-- Times are epoch milliseconds; expires_at is when the bucket would be full
+-- again, after which the row carries no information and can be evicted.
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at BIGINT NOT NULL,
+  expires_at BIGINT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires_at ON rate_limit_buckets(expires_at);
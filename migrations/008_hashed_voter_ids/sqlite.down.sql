@@ -0,0 +1,2 @@
+-- The expired addresses can't be recovered; nothing to undo.
+SELECT 1;
@@ -0,0 +1,9 @@
+-- Human voter ids and flag reporter ids were raw client IPs up to here. From now on
+-- they are keyed hashes (see src/voterIdentity.ts), which can't be computed in SQL,
+-- so the existing addresses are expired instead: rows and counters stay, and each
+-- visitor may vote once more on items they had already voted on.
+UPDATE votes SET voter_ip = 'expired:' || id
+WHERE vote_source = 'human' AND voter_ip NOT LIKE 'expired:%';
+
+UPDATE flags SET reporter_id = 'expired:' || id
+WHERE reporter_id NOT LIKE 'key:%' AND reporter_id NOT LIKE 'expired:%';
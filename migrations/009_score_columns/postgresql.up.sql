@@ -0,0 +1,15 @@
+-- Net votes per source, and the two blended with SCORE_HUMAN_WEIGHT / SCORE_MACHINE_WEIGHT.
+-- Feeds sort on these instead of vote_score. blended_score starts out with the default
+-- weights (1 and 1); the app rescores it on startup when others are configured.
+ALTER TABLE news_items ADD COLUMN human_score INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_items ADD COLUMN machine_score INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_items ADD COLUMN blended_score DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+UPDATE news_items SET
+  human_score = human_upvotes - human_downvotes,
+  machine_score = machine_upvotes - machine_downvotes,
+  blended_score = human_upvotes - human_downvotes + machine_upvotes - machine_downvotes;
+
+CREATE INDEX IF NOT EXISTS idx_news_blended_score ON news_items(blended_score DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_news_human_score ON news_items(human_score DESC, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_news_machine_score ON news_items(machine_score DESC, created_at DESC);
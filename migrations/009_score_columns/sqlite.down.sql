@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS idx_news_machine_score;
+DROP INDEX IF EXISTS idx_news_human_score;
+DROP INDEX IF EXISTS idx_news_blended_score;
+ALTER TABLE news_items DROP COLUMN blended_score;
+ALTER TABLE news_items DROP COLUMN machine_score;
+ALTER TABLE news_items DROP COLUMN human_score;
@@ -0,0 +1,4 @@
+DROP TRIGGER IF EXISTS news_search_sync ON news_items;
+DROP FUNCTION IF EXISTS news_search_sync();
+DROP TABLE IF EXISTS news_search;
+DROP FUNCTION IF EXISTS news_search_document(TEXT, TEXT, TEXT);
@@ -0,0 +1,34 @@
+-- Full-text index over summaries, authors and link domains, weighted in that order.
+-- The domain is the host part of canonical_url (see linkDomain in src/search.ts), so
+-- rows without a canonical URL are indexed without one until news:canonicalize runs.
+-- The 'simple' configuration doesn't stem, matching SQLite's unicode61 tokenizer.
+CREATE TABLE IF NOT EXISTS news_search (
+  news_item_id INTEGER PRIMARY KEY REFERENCES news_items (id) ON DELETE CASCADE,
+  document TSVECTOR NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_search_document ON news_search USING GIN (document);
+
+CREATE OR REPLACE FUNCTION news_search_document(summary TEXT, author TEXT, canonical_url TEXT) RETURNS TSVECTOR AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(summary, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(author, '')), 'B')
+    || setweight(to_tsvector('simple', replace(split_part(split_part(coalesce(canonical_url, ''), '/', 1), '?', 1), '.', ' ')), 'C')
+$$ LANGUAGE SQL IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION news_search_sync() RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO news_search (news_item_id, document)
+  VALUES (NEW.id, news_search_document(NEW.summary, NEW.author, NEW.canonical_url))
+  ON CONFLICT (news_item_id) DO UPDATE SET document = EXCLUDED.document;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deleted items drop out through the foreign key
+DROP TRIGGER IF EXISTS news_search_sync ON news_items;
+CREATE TRIGGER news_search_sync AFTER INSERT OR UPDATE OF summary, author, canonical_url ON news_items
+  FOR EACH ROW EXECUTE FUNCTION news_search_sync();
+
+INSERT INTO news_search (news_item_id, document)
+SELECT id, news_search_document(summary, author, canonical_url) FROM news_items
+ON CONFLICT (news_item_id) DO NOTHING;
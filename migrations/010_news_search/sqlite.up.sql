@@ -0,0 +1,28 @@
+-- Full-text index over summaries, authors and link domains; rowid is the news item id.
+-- The domain is the host part of canonical_url (see linkDomain in src/search.ts), so
+-- rows without a canonical URL are indexed without one until news:canonicalize runs.
+CREATE VIRTUAL TABLE IF NOT EXISTS news_search USING fts5(
+  summary,
+  author,
+  domain,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO news_search (rowid, summary, author, domain)
+SELECT id, summary, author, substr(canonical_url, 1, instr(replace(canonical_url, '?', '/') || '/', '/') - 1)
+FROM news_items;
+
+CREATE TRIGGER IF NOT EXISTS news_search_insert AFTER INSERT ON news_items BEGIN
+  INSERT INTO news_search (rowid, summary, author, domain)
+  VALUES (NEW.id, NEW.summary, NEW.author, substr(NEW.canonical_url, 1, instr(replace(NEW.canonical_url, '?', '/') || '/', '/') - 1));
+END;
+
+CREATE TRIGGER IF NOT EXISTS news_search_update AFTER UPDATE OF summary, author, canonical_url ON news_items BEGIN
+  DELETE FROM news_search WHERE rowid = OLD.id;
+  INSERT INTO news_search (rowid, summary, author, domain)
+  VALUES (NEW.id, NEW.summary, NEW.author, substr(NEW.canonical_url, 1, instr(replace(NEW.canonical_url, '?', '/') || '/', '/') - 1));
+END;
+
+CREATE TRIGGER IF NOT EXISTS news_search_delete AFTER DELETE ON news_items BEGIN
+  DELETE FROM news_search WHERE rowid = OLD.id;
+END;
@@ -0,0 +1,27 @@
+-- Topic tags come from this curated list (see `npm run admin -- tags:add`); a submission
+-- may carry a few of them. The first one is the item's category in metrics.
+CREATE TABLE IF NOT EXISTS tags (
+  id SERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK(length(slug) <= 30),
+  label TEXT NOT NULL CHECK(length(label) <= 50),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS news_item_tags (
+  news_item_id INTEGER NOT NULL REFERENCES news_items (id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES tags (id) ON DELETE CASCADE,
+  PRIMARY KEY (news_item_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_item_tags_tag_id ON news_item_tags(tag_id);
+
+INSERT INTO tags (slug, label) VALUES
+  ('research', 'Research'),
+  ('models', 'Models'),
+  ('agents', 'Agents'),
+  ('tools', 'Tools'),
+  ('robotics', 'Robotics'),
+  ('industry', 'Industry'),
+  ('policy', 'Policy'),
+  ('safety', 'Safety')
+ON CONFLICT (slug) DO NOTHING;
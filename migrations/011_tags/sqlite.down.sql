@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_news_item_tags_tag_id;
+DROP TABLE IF EXISTS news_item_tags;
+DROP TABLE IF EXISTS tags;
@@ -0,0 +1,22 @@
+-- Threaded comments. parent_id is null for top-level comments; depth counts the
+-- ancestors. Commenters are identified like voters: a hashed client IP for people,
+-- key:<key id> for API keys. Deleted comments keep their row so replies stay threaded.
+CREATE TABLE IF NOT EXISTS comments (
+  id SERIAL PRIMARY KEY,
+  news_item_id INTEGER NOT NULL REFERENCES news_items (id) ON DELETE CASCADE,
+  parent_id INTEGER REFERENCES comments (id) ON DELETE CASCADE,
+  depth INTEGER NOT NULL DEFAULT 0,
+  body TEXT NOT NULL CHECK(length(body) <= 2000),
+  author TEXT NOT NULL DEFAULT 'Anonymous' CHECK(length(author) <= 50),
+  comment_source TEXT NOT NULL CHECK(comment_source IN ('human', 'machine')),
+  commenter_id TEXT NOT NULL,
+  api_key_id INTEGER REFERENCES api_keys (id),
+  status TEXT NOT NULL DEFAULT 'published' CHECK(status IN ('published', 'deleted')),
+  reply_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_thread ON comments(news_item_id, parent_id, created_at);
+
+-- Published comments per item, kept up to date alongside the vote counters
+ALTER TABLE news_items ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
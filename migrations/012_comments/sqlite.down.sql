@@ -0,0 +1,3 @@
+ALTER TABLE news_items DROP COLUMN comment_count;
+DROP INDEX IF EXISTS idx_comments_thread;
+DROP TABLE IF EXISTS comments;
@@ -0,0 +1,6 @@
+-- Who submitted each item, identified like voters: a hashed client IP for people,
+-- key:<key id> for API keys. The author quota counts posts made without a key by
+-- it. Rows from before this migration stay NULL and count towards no one.
+ALTER TABLE news_items ADD COLUMN submitter_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_news_submitter_id ON news_items(submitter_id, created_at);
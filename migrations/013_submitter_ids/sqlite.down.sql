@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_news_submitter_id;
+ALTER TABLE news_items DROP COLUMN submitter_id;
@@ -0,0 +1,102 @@
+// Duplicate-link notices (409) and form errors (400) should still be shown; comment
+// forms' error slots are named after their reply list, e.g. replies-12-errors
+document.body.addEventListener('htmx:beforeSwap', function(event) {
+    var status = event.detail.xhr.status;
+    var targetId = event.detail.target.id;
+    var errorSlot = /-errors$/.test(targetId);
+    if ((status === 409 && targetId === 'news-list') || (status === 400 && errorSlot)) {
+        event.detail.shouldSwap = true;
+        event.detail.isError = false;
+    }
+});
+
+document.body.addEventListener('htmx:beforeRequest', function(event) {
+    if (event.detail.elt.id === 'submit-form') {
+        document.getElementById('submit-errors').innerHTML = '';
+    }
+    if (event.detail.elt.classList && event.detail.elt.classList.contains('comment-form')) {
+        event.detail.elt.querySelector('.comment-errors').innerHTML = '';
+    }
+});
+
+function toggleCollapse() {
+    const content = document.querySelector('.collapsible-content');
+    const arrow = document.querySelector('.collapse-arrow');
+    
+    if (content.style.display === 'none') {
+        content.style.display = 'block';
+        arrow.textContent = '▼';
+    } else {
+        content.style.display = 'none';
+        arrow.textContent = '▶';
+    }
+}
+
+function createFirework(event, button) {
+    const rect = button.getBoundingClientRect();
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    
+    // Create main firework container
+    const firework = document.createElement('div');
+    firework.className = 'firework';
+    firework.style.left = centerX + 'px';
+    firework.style.top = centerY + 'px';
+    document.body.appendChild(firework);
+    
+    // Create particles
+    const particleCount = 12;
+    for (let i = 0; i < particleCount; i++) {
+        const particle = document.createElement('div');
+        particle.className = 'firework-particle';
+        
+        const angle = (i / particleCount) * Math.PI * 2;
+        const distance = 50 + Math.random() * 30;
+        const x = Math.cos(angle) * distance;
+        const y = Math.sin(angle) * distance;
+        
+        particle.style.setProperty('--x', x + 'px');
+        particle.style.setProperty('--y', y + 'px');
+        
+        firework.appendChild(particle);
+    }
+    
+    // No sparkles - just explosion
+    
+    // Clean up
+    setTimeout(() => firework.remove(), 800);
+}
+
+function createRedFirework(event, button) {
+    const rect = button.getBoundingClientRect();
+    const centerX = rect.left + rect.width / 2;
+    const centerY = rect.top + rect.height / 2;
+    
+    // Create main firework container
+    const firework = document.createElement('div');
+    firework.className = 'firework';
+    firework.style.left = centerX + 'px';
+    firework.style.top = centerY + 'px';
+    document.body.appendChild(firework);
+    
+    // Create particles - only bottom half
+    const particleCount = 6;
+    for (let i = 0; i < particleCount; i++) {
+        const particle = document.createElement('div');
+        particle.className = 'red-firework-particle';
+        
+        // Only angles from 0 to π (bottom half)
+        const angle = (i / particleCount) * Math.PI;
+        const distance = 50 + Math.random() * 30;
+        const x = Math.cos(angle) * distance;
+        const y = Math.sin(angle) * distance;
+        
+        particle.style.setProperty('--x', x + 'px');
+        particle.style.setProperty('--y', y + 'px');
+        
+        firework.appendChild(particle);
+    }
+    
+    // Clean up
+    setTimeout(() => firework.remove(), 800);
+}
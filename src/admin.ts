@@ -0,0 +1,251 @@
+// Administration CLI: npm run admin -- <command> [options]; run without a command for usage
+import DatabaseManager, { ApiKey, ApiKeyScope, NewsItem, NewsStatus } from './database';
+import { NEWS_STATUSES } from './storage';
+import { issueApiKey, parseScopes } from './apiKeys';
+import { MAX_TAG_LABEL_LENGTH, isTagSlug } from './tags';
+import { expireOldVoterIds, getVoterIdentity } from './voterIdentity';
+import { logger } from './telemetry';
+
+const USAGE = `Usage: admin <command> [options]
+
+  keys:create --owner <name> --agent <name> --scopes <vote,submit,comment,moderate>
+  keys:list
+  keys:revoke <key id>
+  news:list [--status <status>] [--limit <n>] [--offset <n>]
+  news:hide <id>
+  news:publish <id>
+  news:delete <id> [--purge]
+  news:canonicalize
+  flags:list [--limit <n>] [--offset <n>]
+  tags:list
+  tags:add <slug> --label <label>
+  tags:remove <slug>
+  comments:delete <comment id>
+  votes:purge --ip <address> | --key <key id>
+  votes:expire
+  scores:recompute
+  stats`;
+
+class UsageError extends Error {}
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function requireFlag(args: string[], name: string): string {
+  const value = getFlag(args, name);
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+function parseId(value: string | undefined, kind: string = 'news item'): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new UsageError(`Expected a ${kind} id`);
+  }
+  return id;
+}
+
+function parseScopesFlag(args: string[]): ApiKeyScope[] {
+  try {
+    return parseScopes(requireFlag(args, '--scopes'));
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+function formatKey(apiKey: ApiKey): string {
+  const state = apiKey.revoked_at ? `revoked ${apiKey.revoked_at}` : `last used ${apiKey.last_used_at || 'never'}`;
+  return `${apiKey.key_id}  ${apiKey.owner} / ${apiKey.agent_name}  [${apiKey.scopes.join(',')}]  ${state}`;
+}
+
+function formatItem(item: NewsItem): string {
+  return `#${item.id}  ${item.status}  score ${item.vote_score}  ${item.created_at}  ${item.summary}\n      ${item.link}`;
+}
+
+const commands: Record<string, (db: DatabaseManager, args: string[]) => Promise<void>> = {
+  'keys:create': async (db, args) => {
+    const { apiKey, token } = await issueApiKey(
+      db,
+      requireFlag(args, '--owner'),
+      requireFlag(args, '--agent'),
+      parseScopesFlag(args)
+    );
+    console.log(formatKey(apiKey));
+    console.log(`\nAPI key (shown once, store it now):\n${token}`);
+  },
+
+  'keys:list': async (db) => {
+    const keys = await db.listApiKeys();
+    console.log(keys.length === 0 ? 'No API keys' : keys.map(formatKey).join('\n'));
+  },
+
+  'keys:revoke': async (db, [keyId]) => {
+    if (!keyId) throw new UsageError('Expected a key id');
+    console.log(await db.revokeApiKey(keyId) ? `Revoked ${keyId}` : `No active key ${keyId}`);
+  },
+
+  'news:list': async (db, args) => {
+    const status = getFlag(args, '--status') as NewsStatus | undefined;
+    if (status && !NEWS_STATUSES.includes(status)) {
+      throw new UsageError(`--status must be one of ${NEWS_STATUSES.join(', ')}`);
+    }
+    const items = await db.getAllNewsItems({
+      status,
+      limit: parseInt(getFlag(args, '--limit') || '50'),
+      offset: parseInt(getFlag(args, '--offset') || '0')
+    });
+    console.log(items.length === 0 ? 'No news items' : items.map(formatItem).join('\n'));
+  },
+
+  'news:hide': async (db, [id]) => {
+    const newsId = parseId(id);
+    console.log(await db.setNewsItemStatus(newsId, 'hidden') ? `Hid #${newsId}` : `No news item #${newsId}`);
+  },
+
+  'news:publish': async (db, [id]) => {
+    const newsId = parseId(id);
+    console.log(await db.setNewsItemStatus(newsId, 'published') ? `Published #${newsId}` : `No news item #${newsId}`);
+  },
+
+  'news:delete': async (db, [id, ...args]) => {
+    const newsId = parseId(id);
+    if (args.includes('--purge')) {
+      console.log(await db.deleteNewsItem(newsId) ? `Purged #${newsId} with its votes, flags and comments` : `No news item #${newsId}`);
+    } else {
+      console.log(await db.setNewsItemStatus(newsId, 'deleted') ? `Deleted #${newsId}` : `No news item #${newsId}`);
+    }
+  },
+
+  'news:canonicalize': async (db) => {
+    const { updated, duplicates } = await db.backfillCanonicalUrls();
+    console.log(`Canonicalized ${updated} item(s)`);
+    duplicates.forEach(({ id, duplicateOf }) => console.log(`  #${id} duplicates #${duplicateOf}; left without a canonical URL`));
+  },
+
+  'flags:list': async (db, args) => {
+    const items = await db.getFlaggedItems({
+      limit: parseInt(getFlag(args, '--limit') || '50'),
+      offset: parseInt(getFlag(args, '--offset') || '0')
+    });
+    if (items.length === 0) {
+      console.log('No open flags');
+      return;
+    }
+    items.forEach(item => {
+      const reasons = Object.entries(item.flag_reasons).map(([reason, n]) => `${reason} ${n}`).join(', ');
+      console.log(`${formatItem(item)}
+      ${item.open_flags} open flag(s): ${reasons}`);
+    });
+  },
+
+  'tags:list': async (db) => {
+    const tags = await db.listTags();
+    const { tags: counts } = await db.getStats();
+    console.log(tags.length === 0
+      ? 'No tags'
+      : tags.map(tag => `${tag.slug}  ${tag.label}  ${counts[tag.slug] || 0} published item(s)`).join('\n'));
+  },
+
+  'tags:add': async (db, [slug, ...args]) => {
+    if (!slug || !isTagSlug(slug)) {
+      throw new UsageError('Expected a tag slug: lowercase letters and digits joined by hyphens, at most 30 characters');
+    }
+    const label = requireFlag(args, '--label').trim();
+    if (!label || label.length > MAX_TAG_LABEL_LENGTH) {
+      throw new UsageError(`--label must be 1-${MAX_TAG_LABEL_LENGTH} characters`);
+    }
+    if (await db.findTag(slug)) {
+      throw new UsageError(`Tag ${slug} already exists`);
+    }
+    const tag = await db.createTag({ slug, label });
+    console.log(`Added tag ${tag.slug} (${tag.label})`);
+  },
+
+  'tags:remove': async (db, [slug]) => {
+    if (!slug) throw new UsageError('Expected a tag slug');
+    console.log(await db.deleteTag(slug) ? `Removed tag ${slug} from the list and from every item` : `No tag ${slug}`);
+  },
+
+  // The comment stays in its thread as a placeholder so its replies keep their place
+  'comments:delete': async (db, [id]) => {
+    const commentId = parseId(id, 'comment');
+    console.log(await db.deleteComment(commentId) ? `Deleted comment ${commentId}` : `No published comment ${commentId}`);
+  },
+
+  'votes:purge': async (db, args) => {
+    const ip = getFlag(args, '--ip');
+    const keyId = getFlag(args, '--key');
+    if (!ip === !keyId) {
+      throw new UsageError('Pass exactly one of --ip or --key');
+    }
+
+    let purged: number;
+    if (ip) {
+      // Votes are stored under hashed ids, one per salt period still within retention
+      purged = await db.purgeVotes({ voterIds: getVoterIdentity().identify(ip) });
+    } else {
+      const apiKey = await db.findApiKey(keyId!);
+      if (!apiKey) {
+        throw new UsageError(`No API key ${keyId}`);
+      }
+      purged = await db.purgeVotes({ apiKeyId: apiKey.id });
+    }
+    console.log(`Purged ${purged} vote(s)`);
+  },
+
+  'votes:expire': async (db) => {
+    const expired = await expireOldVoterIds(db);
+    console.log(`Expired voter ids on ${expired.votes} vote(s), ${expired.flags} flag(s), ${expired.comments} comment(s) and ${expired.submissions} submission(s)`);
+  },
+
+  'scores:recompute': async (db) => {
+    console.log(`Recomputed vote counts and scores for ${await db.recomputeVoteCounters()} item(s)`);
+  },
+
+  'stats': async (db) => {
+    const stats = await db.getStats();
+    console.log(`Backend: ${db.storeType}`);
+    const byStatus = NEWS_STATUSES.map(status => `${status} ${stats.news_items[status]}`).join(', ');
+    console.log(`News items: ${stats.news_items.total} (${byStatus})`);
+    console.log(`Votes: ${stats.votes.total}`);
+    console.log(`  human   ▲ ${stats.votes.human_upvotes}  ▼ ${stats.votes.human_downvotes}`);
+    console.log(`  machine ▲ ${stats.votes.machine_upvotes}  ▼ ${stats.votes.machine_downvotes}`);
+    console.log(`API keys: ${stats.api_keys.active} active, ${stats.api_keys.revoked} revoked`);
+    console.log(`Flags: ${stats.flags.open} open, ${stats.flags.resolved} resolved`);
+    console.log(`Comments: ${stats.comments.published} published, ${stats.comments.deleted} deleted`);
+  }
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const run = commands[command];
+
+  if (!run) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = new DatabaseManager();
+  await db.ready;
+
+  try {
+    await run(db, args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      logger.error('Admin command failed', error);
+    }
+    await db.close();
+    process.exit(1);
+  }
+
+  await db.close();
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,746 @@
+import crypto from 'crypto';
+import express, { Request, Response, NextFunction, Router } from 'express';
+import DatabaseManager, { ApiKey, ApiKeyScope, NewsStatus, Voter } from '../database';
+import { NEWS_STATUSES } from '../storage';
+import { SCORE_BASES, ScoreBasis } from '../ranking';
+import { NewsSearch, SearchQueryError, parseSearchQuery } from '../search';
+import { InvalidCursorError } from '../cursor';
+import { newsCategory } from '../tags';
+import { validateNewsSubmission, validateFlagSubmission, validateCommentSubmission } from '../validation';
+import { DuplicateLinkError, describeDuplicate } from '../links';
+import { PolicyViolationError } from '../policy';
+import { CommentThreadError, toPublicComment } from '../comments';
+import { toPublicNewsItem, toModeratorNewsItem } from '../news';
+import { getClientIp } from '../clientIp';
+import { humanVoter, isExpiredVoterId } from '../voterIdentity';
+import { ApiKeyError, resolveRequestApiKey, hasScope, machineVoter, getApiKeyToken } from '../apiKeys';
+import { logger, metrics, tracing, errorTracker, telemetryConfig } from '../telemetry';
+
+type SortType = 'top' | 'new' | 'classic';
+
+const SORTS: SortType[] = ['top', 'new', 'classic'];
+const DEFAULT_LIMIT = 30;
+const MAX_LIMIT = 100;
+
+export class ApiError extends Error {
+  constructor(
+    public statusCode: number,
+    public code: string,
+    message: string,
+    public details?: Record<string, any>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface ApiRouteDefinition {
+  method: 'get' | 'post' | 'delete';
+  path: string;
+  description: string;
+  parameters?: Record<string, string>;
+  body?: Record<string, string>;
+  handler: (req: Request, res: Response, db: DatabaseManager) => Promise<void>;
+}
+
+function sendSuccess(res: Response, statusCode: number, data: any, meta?: Record<string, any>) {
+  res.status(statusCode).json({
+    success: true,
+    data,
+    ...(meta ? { meta } : {})
+  });
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ApiError(400, 'invalid_id', 'News item id must be a positive integer');
+  }
+  return id;
+}
+
+function parseIntParam(value: unknown, name: string, fallback: number, min: number, max: number): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new ApiError(400, 'invalid_parameter', `${name} must be an integer between ${min} and ${max}`, { parameter: name });
+  }
+  return parsed;
+}
+
+function parseDateParam(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ApiError(400, 'invalid_parameter', `${name} must be an ISO 8601 date`, { parameter: name });
+  }
+  return date.toISOString();
+}
+
+function parseSort(value: unknown): SortType {
+  if (value === undefined || value === '') return 'top';
+  if (!SORTS.includes(value as SortType)) {
+    throw new ApiError(400, 'invalid_parameter', `sort must be one of ${SORTS.join(', ')}`, { parameter: 'sort' });
+  }
+  return value as SortType;
+}
+
+function parseScoreBasis(value: unknown): ScoreBasis {
+  if (value === undefined || value === '') return 'blended';
+  if (!SCORE_BASES.includes(value as ScoreBasis)) {
+    throw new ApiError(400, 'invalid_parameter', `by must be one of ${SCORE_BASES.join(', ')}`, { parameter: 'by' });
+  }
+  return value as ScoreBasis;
+}
+
+// Resolves the tag slug, or undefined when none was given
+async function parseTagParam(value: unknown, db: DatabaseManager): Promise<string | undefined> {
+  if (value === undefined || value === '') return undefined;
+  const tag = typeof value === 'string' ? await db.findTag(value) : null;
+  if (!tag) {
+    throw new ApiError(400, 'invalid_parameter', `Unknown tag '${value}'; see ${API_V1_BASE_PATH}/tags`, { parameter: 'tag' });
+  }
+  return tag.slug;
+}
+
+function parseSearchParam(value: unknown): NewsSearch {
+  try {
+    return parseSearchQuery(typeof value === 'string' ? value : '');
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      throw new ApiError(400, 'invalid_parameter', error.message, { parameter: 'q' });
+    }
+    throw error;
+  }
+}
+
+function parseVoteSource(value: unknown): 'human' | 'machine' {
+  if (value !== undefined && !['human', 'machine'].includes(value as string)) {
+    throw new ApiError(400, 'validation_error', "source must be 'human' or 'machine'", { parameter: 'source' });
+  }
+  return value === 'machine' ? 'machine' : 'human';
+}
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+async function authenticate(req: Request, db: DatabaseManager): Promise<ApiKey | null> {
+  try {
+    return await resolveRequestApiKey(req, db);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      throw new ApiError(401, 'invalid_api_key', error.message);
+    }
+    throw error;
+  }
+}
+
+async function requireScope(req: Request, db: DatabaseManager, scope: ApiKeyScope): Promise<ApiKey> {
+  const apiKey = await authenticate(req, db);
+  if (!apiKey) {
+    throw new ApiError(401, 'unauthorized', `An API key with the '${scope}' scope is required`);
+  }
+  if (!hasScope(apiKey, scope)) {
+    throw new ApiError(403, 'forbidden', `API key lacks the '${scope}' scope`);
+  }
+  return apiKey;
+}
+
+// The vote source follows from the credential: an API key votes as a machine, anyone else as a human
+async function resolveVoter(req: Request, db: DatabaseManager, source: 'human' | 'machine'): Promise<Voter> {
+  const apiKey = await authenticate(req, db);
+  if (apiKey) {
+    if (!hasScope(apiKey, 'vote')) {
+      throw new ApiError(403, 'forbidden', "API key lacks the 'vote' scope");
+    }
+    return machineVoter(apiKey);
+  }
+  if (source === 'machine') {
+    throw new ApiError(401, 'unauthorized', "Machine votes require an API key with the 'vote' scope");
+  }
+  return humanVoter(getClientIp(req));
+}
+
+// Moderators authenticate with an API key holding the 'moderate' scope, or with
+// `Authorization: Bearer <MODERATOR_TOKEN>` when that is configured
+async function requireModerator(req: Request, db: DatabaseManager) {
+  if (getApiKeyToken(req)) {
+    await requireScope(req, db, 'moderate');
+    return;
+  }
+
+  const token = process.env.MODERATOR_TOKEN;
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  if (!provided || !token || !crypto.timingSafeEqual(digest(provided), digest(token))) {
+    throw new ApiError(401, 'unauthorized', "A moderator token or an API key with the 'moderate' scope is required");
+  }
+}
+
+// Short pseudonym, so moderators can spot repeat voters without seeing stored ids
+function hashVoter(voterId: string): string {
+  return digest(voterId).toString('hex').substring(0, 16);
+}
+
+function parseStatus(value: unknown, required: boolean): NewsStatus | undefined {
+  if (!required && (value === undefined || value === '')) return undefined;
+  if (!NEWS_STATUSES.includes(value as NewsStatus)) {
+    throw new ApiError(400, 'validation_error', `status must be one of ${NEWS_STATUSES.join(', ')}`, { parameter: 'status' });
+  }
+  return value as NewsStatus;
+}
+
+async function requireNewsItem(db: DatabaseManager, id: number) {
+  const item = await db.getNewsItemById(id);
+  if (!item || item.status !== 'published') {
+    throw new ApiError(404, 'not_found', `News item ${id} not found`);
+  }
+  return item;
+}
+
+const routes: ApiRouteDefinition[] = [
+  {
+    method: 'get',
+    path: '/news',
+    description: 'List news items with human and machine vote counts',
+    parameters: {
+      sort: "string - 'top', 'new', or 'classic' (default 'top')",
+      by: "string - votes 'top' and 'classic' rank by: 'blended', 'human' or 'machine' (default 'blended')",
+      tag: 'string - only items with this tag slug (see GET /tags)',
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      cursor: "string - opaque cursor from the previous page's meta.next_cursor (takes precedence over offset)",
+      offset: 'number - items to skip (default 0)',
+      from: 'string - ISO 8601 date, only items created at or after it',
+      to: 'string - ISO 8601 date, only items created before it'
+    },
+    handler: async (req, res, db) => {
+      const sort = parseSort(req.query.sort);
+      const by = parseScoreBasis(req.query.by);
+      const tag = await parseTagParam(req.query.tag, db);
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const since = parseDateParam(req.query.from, 'from');
+      const until = parseDateParam(req.query.to, 'to');
+      const range = { from: since || null, to: until || null, tag: tag || null };
+
+      if (typeof req.query.cursor === 'string' && req.query.cursor) {
+        const page = await db.getNewsPageBySort(sort, { limit, cursor: req.query.cursor, since, until, by, tag })
+          .catch(error => {
+            if (error instanceof InvalidCursorError) {
+              throw new ApiError(400, 'invalid_parameter', error.message, { parameter: 'cursor' });
+            }
+            throw error;
+          });
+
+        return sendSuccess(res, 200, (await db.attachItemDetails(page.items)).map(toPublicNewsItem), {
+          sort,
+          by,
+          limit,
+          ...range,
+          has_more: page.nextCursor !== null,
+          next_cursor: page.nextCursor
+        });
+      }
+
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+      if (offset === 0) {
+        // The first page doubles as the entry point for cursor pagination
+        const page = await db.getNewsPageBySort(sort, { limit, since, until, by, tag });
+        return sendSuccess(res, 200, (await db.attachItemDetails(page.items)).map(toPublicNewsItem), {
+          sort,
+          by,
+          limit,
+          offset,
+          ...range,
+          has_more: page.nextCursor !== null,
+          next_cursor: page.nextCursor
+        });
+      }
+
+      // Fetch one extra row to learn whether another page exists
+      const items = await db.getNewsItemsBySort(sort, { limit: limit + 1, offset, since, until, by, tag });
+
+      sendSuccess(res, 200, (await db.attachItemDetails(items.slice(0, limit))).map(toPublicNewsItem), {
+        sort,
+        by,
+        limit,
+        offset,
+        ...range,
+        has_more: items.length > limit
+      });
+    }
+  },
+  {
+    method: 'get',
+    path: '/search',
+    description: 'Full-text search over published summaries, authors and link domains, most relevant first',
+    parameters: {
+      q: 'string - words to search for (matched as word prefixes), plus optional site:example.org and author:name or author:"Full Name" filters',
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      offset: 'number - items to skip (default 0)'
+    },
+    handler: async (req, res, db) => {
+      const search = parseSearchParam(req.query.q);
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+
+      // Fetch one extra row to learn whether another page exists
+      const items = await db.searchNewsItems(search, { limit: limit + 1, offset });
+
+      sendSuccess(res, 200, (await db.attachItemDetails(items.slice(0, limit))).map(toPublicNewsItem), {
+        q: req.query.q,
+        ...search,
+        limit,
+        offset,
+        has_more: items.length > limit
+      });
+    }
+  },
+  {
+    method: 'get',
+    path: '/news/:id',
+    description: 'Get a single news item with human and machine vote counts and its tags',
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const item = await requireNewsItem(db, id);
+      const [detailed] = await db.attachItemDetails([item]);
+      sendSuccess(res, 200, toPublicNewsItem(detailed));
+    }
+  },
+  {
+    method: 'get',
+    path: '/tags',
+    description: 'Tags submissions can use, with the number of published items carrying each',
+    handler: async (req, res, db) => {
+      const tags = await db.listTags();
+      const { tags: counts } = await db.getStats();
+      sendSuccess(res, 200, tags.map(tag => ({ slug: tag.slug, label: tag.label, news_items: counts[tag.slug] || 0 })));
+    }
+  },
+  {
+    method: 'post',
+    path: '/news',
+    description: "Submit a new news item (requires an API key with the 'submit' scope)",
+    body: {
+      summary: 'string (max 200 chars) - Brief summary of the news',
+      link: 'string (valid URL) - Link to the full article',
+      author: 'string (max 50 chars, optional) - Signature shown on the post',
+      tags: 'string[] (optional) - up to 3 tag slugs from GET /tags; the first is the post\'s category'
+    },
+    handler: async (req, res, db) => {
+      const apiKey = await requireScope(req, db, 'submit');
+
+      const validation = validateNewsSubmission(req.body || {});
+      if (!validation.valid) {
+        const { error, ...details } = validation.error;
+        throw new ApiError(400, 'validation_error', error, details);
+      }
+
+      const { summary, link, author, tags } = validation.value;
+      const newsId = await db.addNewsItem(summary, link, author, machineVoter(apiKey), tags).catch(error => {
+        if (error instanceof PolicyViolationError) {
+          throw new ApiError(400, 'policy_violation', error.message, { violations: error.violations });
+        }
+        if (error instanceof DuplicateLinkError) {
+          const existing = describeDuplicate(error.existing);
+          throw new ApiError(409, 'duplicate_link', error.message, existing
+            ? { existing: { ...existing, url: `${API_V1_BASE_PATH}/news/${existing.id}` } }
+            : {});
+        }
+        throw error;
+      });
+
+      metrics.recordNewsItem('api_v1', author === 'Anonymous' ? 'anonymous' : 'named', newsCategory(tags));
+      logger.info('News item created', { newsId, summary, link, author, tags, keyId: apiKey.key_id });
+
+      const [item] = await db.attachItemDetails([(await db.getNewsItemById(newsId))!]);
+      sendSuccess(res, 201, toPublicNewsItem(item));
+    }
+  },
+  {
+    method: 'post',
+    path: '/news/:id/votes',
+    description: 'Vote on a news item; requests with an API key (vote scope) count as machine votes',
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    body: {
+      voteType: "string - 'up' or 'down'; repeating your current vote removes it",
+      source: "string - deprecated, derived from the API key; 'machine' without a key is rejected"
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const { voteType, source } = req.body || {};
+
+      if (!['up', 'down'].includes(voteType)) {
+        throw new ApiError(400, 'validation_error', "voteType must be 'up' or 'down'", { parameter: 'voteType' });
+      }
+      const voter = await resolveVoter(req, db, parseVoteSource(source));
+      const voteSource = voter.source;
+
+      const change = await db.vote(id, voteType, voter);
+      if (!change) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+
+      if (change.current) {
+        metrics.recordVote(change.current, voteSource);
+        logger.info('Vote recorded', { newsId: id, voteType, voteSource });
+      } else {
+        logger.info('Vote removed', { newsId: id, voteType: change.previous, voteSource });
+      }
+
+      const voteCounts = await db.getVoteCounts(id);
+      sendSuccess(res, change.previous === null ? 201 : 200, {
+        news_item_id: id,
+        vote_type: change.current,
+        previous_vote_type: change.previous,
+        vote_source: voteSource,
+        ...voteCounts
+      });
+    }
+  },
+  {
+    method: 'delete',
+    path: '/news/:id/votes',
+    description: 'Remove your vote from a news item',
+    parameters: {
+      id: 'number - ID of the news item',
+      source: "string - deprecated, derived from the API key like POST"
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const voter = await resolveVoter(req, db, parseVoteSource(req.query.source ?? req.body?.source));
+      const voteSource = voter.source;
+
+      const change = await db.setVote(id, null, voter);
+      if (!change) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+      if (change.previous === null) {
+        throw new ApiError(404, 'vote_not_found', 'You have not voted on this item');
+      }
+
+      logger.info('Vote removed', { newsId: id, voteType: change.previous, voteSource });
+
+      const voteCounts = await db.getVoteCounts(id);
+      sendSuccess(res, 200, {
+        news_item_id: id,
+        vote_type: null,
+        previous_vote_type: change.previous,
+        vote_source: voteSource,
+        ...voteCounts
+      });
+    }
+  },
+  {
+    method: 'post',
+    path: '/news/:id/flags',
+    description: 'Flag a news item for moderator review; each reporter can flag an item once',
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    body: {
+      reason: "string - 'spam', 'off_topic', 'broken_link', 'duplicate', 'abuse' or 'other'",
+      details: 'string (max 500 chars, optional) - Anything the moderators should know'
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const validation = validateFlagSubmission(req.body || {});
+      if (!validation.valid) {
+        const { error, ...details } = validation.error;
+        throw new ApiError(400, 'validation_error', error, details);
+      }
+
+      // Reporters are identified the same way voters are
+      const apiKey = await authenticate(req, db);
+      const reporterId = (apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req))).id;
+      const { reason, details } = validation.value;
+
+      const created = await db.flagNewsItem(id, reason, details, reporterId);
+      if (created === null) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+      if (created) {
+        logger.info('News item flagged', { newsId: id, reason });
+      }
+
+      sendSuccess(res, created ? 201 : 200, {
+        news_item_id: id,
+        reason,
+        already_flagged: !created
+      });
+    }
+  },
+  {
+    method: 'get',
+    path: '/news/:id/comments',
+    description: 'Comments on a news item, oldest first; one level of a thread at a time',
+    parameters: {
+      id: 'number - ID of the news item',
+      parent: 'number - list the replies to this comment instead of the top-level comments',
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      offset: 'number - comments to skip (default 0)'
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const parentId = req.query.parent === undefined
+        ? null
+        : parseIntParam(req.query.parent, 'parent', 0, 1, Number.MAX_SAFE_INTEGER);
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+      await requireNewsItem(db, id);
+
+      // Fetch one extra row to learn whether another page exists
+      const comments = await db.getComments(id, parentId, { limit: limit + 1, offset });
+
+      sendSuccess(res, 200, comments.slice(0, limit).map(toPublicComment), {
+        parent_id: parentId,
+        limit,
+        offset,
+        has_more: comments.length > limit
+      });
+    }
+  },
+  {
+    method: 'post',
+    path: '/news/:id/comments',
+    description: "Comment on a news item or reply to one of its comments; requests with an API key (which needs the 'comment' scope) post machine comments",
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    body: {
+      body: 'string (max 2000 chars) - The comment',
+      author: 'string (max 50 chars, optional) - Signature shown on the comment',
+      parent_id: 'number (optional) - The comment to reply to'
+    },
+    handler: async (req, res, db) => {
+      const id = parseId(req.params.id);
+      const { body, author, parent_id: parentId } = req.body || {};
+      const validation = validateCommentSubmission({ body, author, parentId });
+      if (!validation.valid) {
+        const { error, ...details } = validation.error;
+        throw new ApiError(400, 'validation_error', error, details);
+      }
+
+      // Like votes, the comment source comes from the credential
+      const apiKey = await authenticate(req, db);
+      if (apiKey && !hasScope(apiKey, 'comment')) {
+        throw new ApiError(403, 'forbidden', "API key lacks the 'comment' scope");
+      }
+      const commenter = apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req));
+
+      const comment = await db.addComment(id, validation.value.parentId, validation.value.body, validation.value.author, commenter)
+        .catch(error => {
+          if (error instanceof CommentThreadError) {
+            throw new ApiError(400, 'invalid_thread', error.message, { parameter: 'parent_id' });
+          }
+          throw error;
+        });
+      if (!comment) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+      logger.info('Comment added', { newsId: id, commentId: comment.id, parentId: comment.parent_id, source: comment.comment_source });
+
+      sendSuccess(res, 201, toPublicComment(comment));
+    }
+  },
+  {
+    method: 'get',
+    path: '/news/:id/votes',
+    description: "Vote history for a news item, newest first (moderators: an API key with the 'moderate' scope or Bearer <MODERATOR_TOKEN>)",
+    parameters: {
+      id: 'number - ID of the news item',
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      offset: 'number - votes to skip (default 0)'
+    },
+    handler: async (req, res, db) => {
+      await requireModerator(req, db);
+
+      const id = parseId(req.params.id);
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+
+      // Moderators can see the history of hidden items too
+      if (!(await db.getNewsItemById(id))) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+
+      // Fetch one extra row to learn whether another page exists
+      const votes = await db.getVoteHistory(id, { limit: limit + 1, offset });
+
+      sendSuccess(res, 200, votes.slice(0, limit).map(vote => ({
+        id: vote.id,
+        vote_type: vote.vote_type,
+        vote_source: vote.vote_source,
+        // Null once the retention job has stripped the voter id
+        voter: isExpiredVoterId(vote.voter_ip) ? null : hashVoter(vote.voter_ip),
+        created_at: vote.created_at
+      })), {
+        limit,
+        offset,
+        has_more: votes.length > limit
+      });
+    }
+  },
+  {
+    method: 'get',
+    path: '/moderation/flags',
+    description: 'Items with open flags, most flagged first, with their vote breakdown (moderators only)',
+    parameters: {
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      offset: 'number - items to skip (default 0)'
+    },
+    handler: async (req, res, db) => {
+      await requireModerator(req, db);
+
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+
+      // Fetch one extra row to learn whether another page exists
+      const items = await db.getFlaggedItems({ limit: limit + 1, offset });
+
+      sendSuccess(res, 200, items.slice(0, limit).map(toModeratorNewsItem), {
+        limit,
+        offset,
+        has_more: items.length > limit
+      });
+    }
+  },
+  {
+    method: 'get',
+    path: '/moderation/news/:id/flags',
+    description: 'Every flag raised on a news item, oldest first (moderators only)',
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    handler: async (req, res, db) => {
+      await requireModerator(req, db);
+
+      const id = parseId(req.params.id);
+      if (!(await db.getNewsItemById(id))) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+
+      const flags = await db.getFlags(id);
+      sendSuccess(res, 200, flags.map(flag => ({
+        id: flag.id,
+        reason: flag.reason,
+        details: flag.details,
+        reporter: isExpiredVoterId(flag.reporter_id) ? null : hashVoter(flag.reporter_id),
+        created_at: flag.created_at,
+        resolved_at: flag.resolved_at
+      })));
+    }
+  },
+  {
+    method: 'get',
+    path: '/moderation/news',
+    description: 'News items in any status, e.g. the pending queue (moderators only)',
+    parameters: {
+      status: `string - one of ${NEWS_STATUSES.join(', ')} (default: all)`,
+      limit: `number - page size, 1-${MAX_LIMIT} (default ${DEFAULT_LIMIT})`,
+      offset: 'number - items to skip (default 0)'
+    },
+    handler: async (req, res, db) => {
+      await requireModerator(req, db);
+
+      const status = parseStatus(req.query.status, false);
+      const limit = parseIntParam(req.query.limit, 'limit', DEFAULT_LIMIT, 1, MAX_LIMIT);
+      const offset = parseIntParam(req.query.offset, 'offset', 0, 0, Number.MAX_SAFE_INTEGER);
+
+      // Fetch one extra row to learn whether another page exists
+      const items = await db.getAllNewsItems({ status, limit: limit + 1, offset });
+
+      sendSuccess(res, 200, (await db.attachItemDetails(items.slice(0, limit))).map(toModeratorNewsItem), {
+        status: status || null,
+        limit,
+        offset,
+        has_more: items.length > limit
+      });
+    }
+  },
+  {
+    method: 'post',
+    path: '/moderation/news/:id/status',
+    description: 'Publish, hide or delete a news item; resolves its open flags (moderators only)',
+    parameters: {
+      id: 'number - ID of the news item'
+    },
+    body: {
+      status: `string - one of ${NEWS_STATUSES.join(', ')}`
+    },
+    handler: async (req, res, db) => {
+      await requireModerator(req, db);
+
+      const id = parseId(req.params.id);
+      const status = parseStatus(req.body?.status, true)!;
+
+      if (!(await db.setNewsItemStatus(id, status))) {
+        throw new ApiError(404, 'not_found', `News item ${id} not found`);
+      }
+      logger.info('News item moderated', { newsId: id, status });
+
+      sendSuccess(res, 200, toModeratorNewsItem((await db.getNewsItemById(id))!));
+    }
+  }
+];
+
+export const API_V1_BASE_PATH = '/api/v1';
+
+export function getApiV1Docs(): Record<string, any> {
+  return Object.fromEntries(routes.map(route => [
+    `${route.method.toUpperCase()} ${API_V1_BASE_PATH}${route.path}`,
+    {
+      description: route.description,
+      ...(route.parameters ? { parameters: route.parameters } : {}),
+      ...(route.body ? { body: route.body } : {})
+    }
+  ]));
+}
+
+export function createApiV1Router(db: DatabaseManager): Router {
+  const router = express.Router();
+
+  routes.forEach(route => {
+    router[route.method](route.path, (req: Request, res: Response, next: NextFunction) => {
+      tracing.traceAsync(`api_v1 ${route.method.toUpperCase()} ${route.path}`, () => route.handler(req, res, db))
+        .catch(next);
+    });
+  });
+
+  router.use((req: Request, res: Response) => {
+    res.status(404).json({
+      success: false,
+      error: { code: 'not_found', message: `No route for ${req.method} ${API_V1_BASE_PATH}${req.path}` }
+    });
+  });
+
+  router.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof ApiError) {
+      return res.status(err.statusCode).json({
+        success: false,
+        error: {
+          code: err.code,
+          message: err.message,
+          ...(err.details && Object.keys(err.details).length > 0 ? { details: err.details } : {})
+        }
+      });
+    }
+
+    const errorId = telemetryConfig.isErrorTrackingEnabled()
+      ? errorTracker.trackError(err, errorTracker.extractRequestContext(req))
+      : undefined;
+    logger.error('API request error', err, { errorId });
+
+    res.status(500).json({
+      success: false,
+      error: { code: 'internal_error', message: 'Internal Server Error', errorId }
+    });
+  });
+
+  return router;
+}
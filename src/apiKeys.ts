@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import DatabaseManager from './database';
+import { ApiKey, ApiKeyScope, Voter } from './storage';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['vote', 'submit', 'comment', 'moderate'];
+
+// Keys look like mbk_<key id>_<secret>; only the key id and a hash of the secret are stored
+const KEY_PREFIX = 'mbk';
+const KEY_PATTERN = /^mbk_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+export class ApiKeyError extends Error {
+  statusCode = 401;
+
+  constructor(message: string = 'Invalid or revoked API key') {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+// Returns the only copy of the full key; it can't be recovered later
+export async function issueApiKey(
+  db: DatabaseManager,
+  owner: string,
+  agentName: string,
+  scopes: ApiKeyScope[]
+): Promise<{ apiKey: ApiKey; token: string }> {
+  const keyId = crypto.randomBytes(8).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+
+  const apiKey = await db.createApiKey({
+    key_id: keyId,
+    key_hash: hashSecret(secret),
+    owner,
+    agent_name: agentName,
+    scopes
+  });
+
+  return { apiKey, token: `${KEY_PREFIX}_${keyId}_${secret}` };
+}
+
+export async function authenticateApiKey(db: DatabaseManager, token: string): Promise<ApiKey> {
+  const match = KEY_PATTERN.exec(token);
+  if (!match) {
+    throw new ApiKeyError('Malformed API key');
+  }
+
+  const record = await db.findApiKey(match[1]);
+  const expected = Buffer.from(record ? record.key_hash : hashSecret(''), 'hex');
+  const actual = Buffer.from(hashSecret(match[2]), 'hex');
+
+  if (!record || !crypto.timingSafeEqual(expected, actual) || record.revoked_at) {
+    throw new ApiKeyError();
+  }
+
+  await db.touchApiKey(record.id);
+  const { key_hash, ...apiKey } = record;
+  return apiKey;
+}
+
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`
+export function getApiKeyToken(req: Request): string | null {
+  const header = req.headers.authorization || '';
+  if (header.startsWith(`Bearer ${KEY_PREFIX}_`)) {
+    return header.slice('Bearer '.length).trim();
+  }
+  const apiKeyHeader = req.headers['x-api-key'];
+  return typeof apiKeyHeader === 'string' && apiKeyHeader ? apiKeyHeader.trim() : null;
+}
+
+// The rate limiter and the route both ask for the key; each request is looked up (and
+// its last_used_at written) once
+const requestApiKeys = new WeakMap<Request, Promise<ApiKey | null>>();
+
+// Null when the request carries no key; throws ApiKeyError when it carries a bad one
+export function resolveRequestApiKey(req: Request, db: DatabaseManager): Promise<ApiKey | null> {
+  let resolved = requestApiKeys.get(req);
+  if (!resolved) {
+    const token = getApiKeyToken(req);
+    resolved = token ? authenticateApiKey(db, token) : Promise.resolve(null);
+    requestApiKeys.set(req, resolved);
+  }
+  return resolved;
+}
+
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+  return apiKey.scopes.includes(scope);
+}
+
+// Machine votes are deduplicated per key, so agents sharing an address don't collide
+export function machineVoter(apiKey: ApiKey): Voter {
+  return { id: `key:${apiKey.key_id}`, source: 'machine', apiKeyId: apiKey.id };
+}
+
+export function parseScopes(value: string): ApiKeyScope[] {
+  const scopes = value.split(',').map(scope => scope.trim()).filter(Boolean);
+  const unknown = scopes.filter(scope => !API_KEY_SCOPES.includes(scope as ApiKeyScope));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scope(s): ${unknown.join(', ')} (expected ${API_KEY_SCOPES.join(', ')})`);
+  }
+  return Array.from(new Set(scopes)) as ApiKeyScope[];
+}
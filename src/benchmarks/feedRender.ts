@@ -0,0 +1,62 @@
+// Benchmarks feed rendering against a throwaway SQLite database and reports
+// how many SQL statements each render issues. Run with `npm run bench:feed`.
+process.env.LOG_LEVEL = 'error';
+process.env.DB_BACKEND = 'sqlite';
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const FEED_SIZES = [10, 100, 500];
+const ITERATIONS = 5;
+
+async function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'feed-bench-'));
+  process.chdir(workDir);
+
+  // Loaded after chdir so the database file lands in the temp directory
+  const { default: DatabaseManager } = await import('../database');
+  const { generateNewsHtml } = await import('../views/news');
+  const { DatabaseLogger } = await import('../telemetry');
+
+  const db = new DatabaseManager();
+  await db.ready;
+  const maxSize = Math.max(...FEED_SIZES);
+
+  for (let i = 0; i < maxSize; i++) {
+    const id = await db.addNewsItem(`Benchmark item ${i}`, `https://example.com/${i}`, 'bench');
+    await db.vote(id, i % 3 === 0 ? 'down' : 'up', { id: `10.0.0.${i % 250}`, source: 'human' });
+    await db.vote(id, 'up', { id: 'bench-agent', source: 'machine' });
+  }
+
+  // Every store query goes through traceQuery, so wrapping it counts statements
+  let statements = 0;
+  const traceQuery = DatabaseLogger.traceQuery.bind(DatabaseLogger);
+  DatabaseLogger.traceQuery = (...args) => {
+    statements++;
+    return traceQuery(...args);
+  };
+
+  console.log('items\tqueries\tavg ms');
+  for (const size of FEED_SIZES) {
+    const items = await db.getNewsItemsBySort('new', { limit: size });
+
+    statements = 0;
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < ITERATIONS; i++) {
+      await generateNewsHtml(items, db);
+    }
+    const avgMs = Number(process.hrtime.bigint() - start) / 1e6 / ITERATIONS;
+
+    console.log(`${size}\t${statements / ITERATIONS}\t${avgMs.toFixed(2)}`);
+  }
+
+  await db.close();
+  fs.rmSync(workDir, { recursive: true, force: true });
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('Benchmark failed', error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+import net from 'net';
+import { Request } from 'express';
+
+// Named ranges accepted in TRUSTED_PROXIES alongside plain addresses and CIDRs
+const PROXY_RANGES: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7']
+};
+PROXY_RANGES.private = [...PROXY_RANGES.linklocal, ...PROXY_RANGES.uniquelocal];
+
+const DEFAULT_TRUSTED_PROXIES = 'loopback';
+
+// The header trusted proxies write the forwarding chain to. Only that one is read: a
+// proxy appends to its own header and passes the other through from the client.
+export type ForwardingHeader = 'x-forwarded-for' | 'forwarded';
+
+const FORWARDING_HEADERS: ForwardingHeader[] = ['x-forwarded-for', 'forwarded'];
+
+// Used when the socket has already gone away
+const UNKNOWN_IP = '0.0.0.0';
+
+function expandIpv6(ip: string): number[] | null {
+  let address = ip;
+
+  // A dotted IPv4 tail (::ffff:192.0.2.1) becomes the last two groups
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (ipv4Tail) {
+    const octets = ipv4Tail[1].split('.').map(Number);
+    address = address.slice(0, -ipv4Tail[1].length) +
+      `${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const missing = 8 - headGroups.length - tailGroups.length;
+  if (address.includes('::') ? missing < 1 : missing !== 0) {
+    return null;
+  }
+
+  return [...headGroups, ...Array(address.includes('::') ? missing : 0).fill('0'), ...tailGroups]
+    .map(group => parseInt(group, 16));
+}
+
+// RFC 5952 text form: lowercase, no leading zeros, longest run of zero groups as ::
+function compressIpv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (start + length < groups.length && groups[start + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart < 0) {
+    return hex.join(':');
+  }
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+// Canonical text for an address so one client always maps to one identity: strips
+// brackets, ports and zone ids, unwraps IPv4-mapped IPv6 and compresses IPv6.
+// Null when the value isn't an IP address (e.g. an RFC 7239 obfuscated identifier).
+export function normalizeIp(value: string): string | null {
+  let ip = value.trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(ip);
+  if (bracketed) {
+    ip = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    ip = ip.slice(0, ip.lastIndexOf(':'));
+  }
+  ip = ip.replace(/%.*$/, '');
+
+  const family = net.isIP(ip);
+  if (family === 4) {
+    return ip;
+  }
+  if (family !== 6) {
+    return null;
+  }
+
+  const groups = expandIpv6(ip.toLowerCase());
+  if (!groups) {
+    return null;
+  }
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+  }
+  return compressIpv6(groups);
+}
+
+// The for= values of an RFC 7239 Forwarded header, nearest client first
+export function parseForwardedHeader(header: string): string[] {
+  return header.split(',').flatMap(element => {
+    const forPair = element
+      .split(';')
+      .map(pair => pair.trim())
+      .find(pair => pair.toLowerCase().startsWith('for='));
+    return forPair ? [forPair.slice('for='.length).replace(/^"(.*)"$/, '$1')] : [];
+  });
+}
+
+export function parseTrustedProxies(value: string): net.BlockList {
+  const blockList = new net.BlockList();
+
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    (PROXY_RANGES[entry.toLowerCase()] || [entry]).forEach(range => {
+      const [address, prefix] = range.split('/');
+      const ip = normalizeIp(address);
+      if (!ip) {
+        throw new Error(`TRUSTED_PROXIES: '${entry}' is not an address, CIDR or one of ${Object.keys(PROXY_RANGES).join(', ')}`);
+      }
+
+      const type = net.isIPv4(ip) ? 'ipv4' : 'ipv6';
+      if (prefix === undefined) {
+        blockList.addAddress(ip, type);
+      } else {
+        blockList.addSubnet(ip, Number(prefix), type);
+      }
+    });
+  });
+
+  return blockList;
+}
+
+export function parseForwardingHeader(value: string): ForwardingHeader {
+  const header = value.trim().toLowerCase();
+  if (!FORWARDING_HEADERS.includes(header as ForwardingHeader)) {
+    throw new Error(`TRUSTED_PROXY_HEADER must be one of ${FORWARDING_HEADERS.join(', ')}`);
+  }
+  return header as ForwardingHeader;
+}
+
+export type ClientIpResolver = (req: Request) => string;
+
+// Walks the forwarding chain from the socket peer towards the client and stops at
+// the first hop that isn't a trusted proxy, so a client can't pick its own address
+// by sending X-Forwarded-For. The chain comes from the one header the proxies write
+// (X-Forwarded-For unless configured to RFC 7239 Forwarded); the other is ignored.
+export function createClientIpResolver(trustedProxies: net.BlockList, header: ForwardingHeader = 'x-forwarded-for'): ClientIpResolver {
+  const isTrusted = (ip: string) => trustedProxies.check(ip, net.isIPv4(ip) ? 'ipv4' : 'ipv6');
+
+  return (req: Request) => {
+    let clientIp = normalizeIp(req.socket?.remoteAddress || '') || UNKNOWN_IP;
+
+    const value = req.headers[header];
+    const joined = Array.isArray(value) ? value.join(',') : value || '';
+    const chain = header === 'forwarded' ? parseForwardedHeader(joined) : joined.split(',');
+
+    for (let i = chain.length - 1; i >= 0 && isTrusted(clientIp); i--) {
+      const hop = normalizeIp(chain[i]);
+      if (!hop) {
+        break; // Garbage from further out; keep the last hop we could vouch for
+      }
+      clientIp = hop;
+    }
+
+    return clientIp;
+  };
+}
+
+let defaultResolver: ClientIpResolver | null = null;
+
+// The one way to get a request's client address; trusts the proxies listed in
+// TRUSTED_PROXIES and the header named by TRUSTED_PROXY_HEADER
+export function getClientIp(req: Request): string {
+  if (!defaultResolver) {
+    defaultResolver = createClientIpResolver(
+      parseTrustedProxies(process.env.TRUSTED_PROXIES ?? DEFAULT_TRUSTED_PROXIES),
+      parseForwardingHeader(process.env.TRUSTED_PROXY_HEADER || 'x-forwarded-for')
+    );
+  }
+  return defaultResolver(req);
+}
@@ -0,0 +1,51 @@
+import { Comment } from './storage';
+
+// Threaded discussion under published items (migration 012). Comments are never edited;
+// moderators soft-delete them, which blanks the body but keeps the replies in place.
+
+export const MAX_COMMENT_LENGTH = 2000;
+// Top-level comments have depth 0; comments at the deepest level take no replies
+export const MAX_COMMENT_DEPTH = 6;
+
+export class CommentThreadError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentThreadError';
+  }
+}
+
+export function acceptsReplies(comment: Comment): boolean {
+  return comment.status === 'published' && comment.depth < MAX_COMMENT_DEPTH - 1;
+}
+
+// What readers see: commenter ids stay private, and deleted comments lose their content
+export interface PublicComment {
+  id: number;
+  news_item_id: number;
+  parent_id: number | null;
+  depth: number;
+  body: string | null;
+  author: string | null;
+  comment_source: 'human' | 'machine';
+  reply_count: number;
+  deleted: boolean;
+  created_at: string;
+}
+
+export function toPublicComment(comment: Comment): PublicComment {
+  const deleted = comment.status === 'deleted';
+  return {
+    id: comment.id,
+    news_item_id: comment.news_item_id,
+    parent_id: comment.parent_id,
+    depth: comment.depth,
+    body: deleted ? null : comment.body,
+    author: deleted ? null : comment.author,
+    comment_source: comment.comment_source,
+    reply_count: comment.reply_count,
+    deleted,
+    created_at: comment.created_at
+  };
+}
@@ -0,0 +1,53 @@
+import { ScoreBasis } from './ranking';
+
+export type SortType = 'top' | 'new' | 'classic';
+
+export interface NewsCursor {
+  sort: SortType;
+  by: ScoreBasis;
+  // The row's value in the listing's score column
+  score: number;
+  created_at: string;
+  id: number;
+  // 'top' only: the row's hot score and the instant the listing was ranked at
+  hot_score?: number;
+  ranked_at?: string;
+}
+
+export class InvalidCursorError extends Error {
+  statusCode = 400;
+
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON of the last row's sort keys
+export function encodeCursor(cursor: NewsCursor): string {
+  const keys = [cursor.sort, cursor.by, cursor.score, cursor.created_at, cursor.id];
+  if (cursor.sort === 'top') {
+    keys.push(cursor.hot_score!, cursor.ranked_at!);
+  }
+  return Buffer.from(JSON.stringify(keys)).toString('base64url');
+}
+
+// A cursor only continues the listing it came from: same sort and same score basis
+export function decodeCursor(value: string, sort: SortType, by: ScoreBasis): NewsCursor {
+  try {
+    const [cursorSort, cursorBy, score, createdAt, id, hotScore, rankedAt] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (cursorSort !== sort || cursorBy !== by || !Number.isFinite(score) || typeof createdAt !== 'string' || !Number.isInteger(id)) {
+      throw new InvalidCursorError();
+    }
+    const cursor: NewsCursor = { sort, by, score, created_at: createdAt, id };
+    if (sort !== 'top') {
+      return cursor;
+    }
+    if (typeof hotScore !== 'number' || typeof rankedAt !== 'string' || isNaN(Date.parse(rankedAt))) {
+      throw new InvalidCursorError();
+    }
+    return { ...cursor, hot_score: hotScore, ranked_at: rankedAt };
+  } catch (error) {
+    throw new InvalidCursorError();
+  }
+}
@@ -1,579 +1,490 @@
-import sqlite3 from 'sqlite3';
-import { Client } from 'pg';
-import path from 'path';
-import { logger, DatabaseLogger } from './telemetry';
-
-export interface NewsItem {
-  id: number;
-  summary: string;
-  link: string;
-  author: string;
-  created_at: string;
-  vote_score: number;
-  human_upvotes?: number;
-  human_downvotes?: number;
-  machine_upvotes?: number;
-  machine_downvotes?: number;
+import { logger } from './telemetry';
+import { SortType, encodeCursor, decodeCursor } from './cursor';
+import { Migrator } from './migrator';
+import { canonicalizeLink, DuplicateLinkError } from './links';
+import { ContentPolicy, PolicyContext, createContentPolicy } from './policy';
+import { NewsSearch } from './search';
+import { CommentThreadError, acceptsReplies } from './comments';
+import { HotRanking, HotRankingConfig, SCORE_COLUMNS, ScoreBasis, ScoreWeights, loadHotRankingConfig, loadScoreWeights } from './ranking';
+import {
+  createNewsStore,
+  NewsStore,
+  NewsItem,
+  NewsQueryOptions,
+  Vote,
+  Voter,
+  VoteChange,
+  VoteCounts,
+  Tag,
+  NewTag,
+  Comment,
+  ApiKey,
+  ApiKeyRecord,
+  NewApiKey,
+  RateLimitBucket,
+  NewsStatus,
+  Flag,
+  FlagReason,
+  FlaggedItem,
+  AdminNewsQuery,
+  VotePurgeFilter,
+  BoardStats,
+  StoreHealth
+} from './storage';
+
+export type {
+  NewsItem,
+  NewsStatus,
+  Flag,
+  FlagReason,
+  FlaggedItem,
+  Vote,
+  Voter,
+  VoteChange,
+  VoteCounts,
+  NewsQueryOptions,
+  Tag,
+  Comment,
+  ApiKey,
+  ApiKeyScope,
+  BoardStats,
+  RateLimitBucket
+} from './storage';
+
+// Keeps IN (...) lists well under SQLite's bound-parameter limit
+const VOTE_COUNT_CHUNK_SIZE = 500;
+
+// With MODERATE_SUBMISSIONS=true new items wait in the moderation queue until published
+function initialNewsStatus(): NewsStatus {
+  return process.env.MODERATE_SUBMISSIONS === 'true' ? 'pending' : 'published';
 }
 
-export interface Vote {
-  id: number;
-  news_item_id: number;
-  vote_type: 'up' | 'down';
-  voter_ip: string;
-  vote_source: 'human' | 'machine';
-  created_at: string;
+export interface NewsPageOptions {
+  limit: number;
+  cursor?: string | null;
+  since?: string;
+  until?: string;
+  by?: ScoreBasis;
+  // Tag slug to filter by
+  tag?: string;
+}
+
+export interface NewsPage {
+  items: NewsItem[];
+  // Opaque cursor for the following page, null on the last page
+  nextCursor: string | null;
 }
 
 class DatabaseManager {
-  private db: sqlite3.Database | null = null;
-  private pgClient: Client | null = null;
-  private isPostgres: boolean;
-
-  constructor() {
-    // Use PostgreSQL in production if DATABASE_URL is provided (Railway sets this)
-    this.isPostgres = !!process.env.DATABASE_URL;
-    
-    if (this.isPostgres) {
-      this.pgClient = new Client({
-        connectionString: process.env.DATABASE_URL,
-        ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
+  private store: NewsStore;
+  private policy: ContentPolicy;
+  private hotRanking: HotRankingConfig;
+
+  // Resolves once the connection is open and, unless disabled, pending migrations have run
+  readonly ready: Promise<void>;
+
+  constructor(options: {
+    autoMigrate?: boolean;
+    store?: NewsStore;
+    policy?: ContentPolicy;
+    hotRanking?: HotRankingConfig;
+    scoreWeights?: ScoreWeights;
+  } = {}) {
+    const autoMigrate = options.autoMigrate ?? true;
+
+    this.store = options.store || createNewsStore();
+    this.policy = options.policy || createContentPolicy();
+    this.hotRanking = options.hotRanking || loadHotRankingConfig();
+    this.store.setScoreWeights(options.scoreWeights || loadScoreWeights());
+    this.ready = this.store.connect().then(async () => {
+      if (autoMigrate) {
+        await this.runMigrations();
+        await this.rescoreBlended();
+      }
+    });
+  }
+
+  get storeType() {
+    return this.store.type;
+  }
+
+  private async runMigrations(): Promise<void> {
+    if (!this.store.getMigrationExecutor()) return;
+
+    const applied = await this.getMigrator().up();
+    if (applied.length > 0) {
+      logger.info(`✅ Applied ${applied.length} database migration(s)`, {
+        versions: applied.map(migration => migration.version)
       });
-      this.connectPostgres();
-    } else {
-      this.db = new sqlite3.Database(path.join(process.cwd(), 'agentic_news.db'));
-      this.initializeTables();
     }
   }
 
-  private async connectPostgres(): Promise<void> {
+  // Brings blended_score in line after the SCORE_*_WEIGHT settings change
+  private async rescoreBlended(): Promise<void> {
+    const rescored = await this.store.rescoreBlended();
+    if (rescored > 0) {
+      logger.info(`Rescored ${rescored} news item(s) with the current score weights`);
+    }
+  }
+
+  getMigrator(): Migrator {
+    const executor = this.store.getMigrationExecutor();
+    if (!executor) {
+      throw new Error(`The ${this.store.type} backend does not use migrations`);
+    }
+    return new Migrator(executor);
+  }
+
+  // Stores the cleaned link and tags. Rejects with PolicyViolationError when the content
+  // policy objects (unknown tags included) and with DuplicateLinkError when the canonical
+  // URL is already on the board.
+  async addNewsItem(
+    summary: string,
+    link: string,
+    author: string = 'Anonymous',
+    submitter: Voter | null = null,
+    tags: string[] = []
+  ): Promise<number> {
+    const policyContext: PolicyContext = {
+      countSubmissions: (filter, since) => this.store.countNewsItemsSince(filter, since),
+      tagSlugs: async () => (await this.store.listTags()).map(tag => tag.slug)
+    };
+    await this.policy.enforce({ summary, link, author, tags, submitter }, policyContext);
+
+    const { link: cleanLink, canonical } = canonicalizeLink(link);
+
+    const existing = await this.store.findNewsItemByCanonicalUrl(canonical);
+    if (existing) {
+      throw new DuplicateLinkError(existing);
+    }
+
     try {
-      if (this.pgClient) {
-        await this.pgClient.connect();
-        logger.info('✅ Connected to PostgreSQL database');
-        DatabaseLogger.logConnectionPool({
-          active: 1,
-          idle: 0,
-          total: 1,
-          dbType: 'postgresql'
-        });
-        await this.initializePostgresTables();
-      }
+      return await this.store.addNewsItem({
+        summary,
+        link: cleanLink,
+        canonical_url: canonical,
+        author,
+        api_key_id: submitter?.apiKeyId ?? null,
+        submitter_id: submitter?.id ?? null,
+        status: initialNewsStatus(),
+        tags
+      });
     } catch (error) {
-      logger.error('❌ Failed to connect to PostgreSQL', error);
-      process.exit(1);
+      // Lost a race with a concurrent submission of the same link
+      const winner = await this.store.findNewsItemByCanonicalUrl(canonical);
+      if (winner) {
+        throw new DuplicateLinkError(winner);
+      }
+      throw error;
     }
   }
 
-  private initializeTables(): void {
-    const sql = `
-      CREATE TABLE IF NOT EXISTS news_items (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        summary TEXT NOT NULL CHECK(length(summary) <= 200),
-        link TEXT NOT NULL,
-        author TEXT NOT NULL DEFAULT 'Anonymous',
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        vote_score INTEGER DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS votes (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        news_item_id INTEGER NOT NULL,
-        vote_type TEXT NOT NULL CHECK(vote_type IN ('up', 'down')),
-        voter_ip TEXT NOT NULL,
-        vote_source TEXT NOT NULL DEFAULT 'human' CHECK(vote_source IN ('human', 'machine')),
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (news_item_id) REFERENCES news_items (id) ON DELETE CASCADE,
-        UNIQUE(news_item_id, voter_ip, vote_source)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_news_vote_score ON news_items(vote_score DESC, created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_votes_news_id ON votes(news_item_id);
-    `;
-    this.db!.exec(sql);
-    this.migrateVotesTable();
-    this.migrateNewsItemsTable();
-  }
-
-  private migrateVotesTable(): void {
-    // Check if vote_source column exists, if not, add it
-    this.db!.get("PRAGMA table_info(votes)", (err, result) => {
-      if (!err) {
-        this.db!.all("PRAGMA table_info(votes)", (err, columns: any[]) => {
-          if (!err) {
-            const hasVoteSource = columns.some(col => col.name === 'vote_source');
-            if (!hasVoteSource) {
-              logger.info('🔄 Migrating votes table to add vote_source column...');
-              DatabaseLogger.logMigration('add_vote_source_column', 'started');
-              this.db!.exec(`
-                ALTER TABLE votes ADD COLUMN vote_source TEXT NOT NULL DEFAULT 'human' CHECK(vote_source IN ('human', 'machine'));
-                
-                -- Drop old unique constraint and create new one
-                CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_unique ON votes(news_item_id, voter_ip, vote_source);
-              `);
-              logger.info('✅ Votes table migration completed');
-              DatabaseLogger.logMigration('add_vote_source_column', 'completed');
-            }
-          }
-        });
+  // Fills canonical_url on rows that predate it. Rows whose link duplicates an
+  // earlier item are left alone and reported back.
+  async backfillCanonicalUrls(): Promise<{ updated: number; duplicates: Array<{ id: number; duplicateOf: number }> }> {
+    const items = (await this.store.getAllNewsItems())
+      .filter(item => !item.canonical_url)
+      .sort((a, b) => a.id - b.id);
+    const duplicates: Array<{ id: number; duplicateOf: number }> = [];
+    let updated = 0;
+
+    for (const item of items) {
+      let canonical: string;
+      try {
+        canonical = canonicalizeLink(item.link).canonical;
+      } catch {
+        continue; // Not a parseable URL; nothing to compare against
+      }
+
+      const existing = await this.store.findNewsItemByCanonicalUrl(canonical);
+      if (existing) {
+        duplicates.push({ id: item.id, duplicateOf: existing.id });
+        continue;
       }
-    });
+      await this.store.setCanonicalUrl(item.id, canonical);
+      updated++;
+    }
+
+    return { updated, duplicates };
   }
 
-  private migrateNewsItemsTable(): void {
-    // Check if author column exists, if not, add it
-    this.db!.get("PRAGMA table_info(news_items)", (err, result) => {
-      if (!err) {
-        this.db!.all("PRAGMA table_info(news_items)", (err, columns: any[]) => {
-          if (!err) {
-            const hasAuthor = columns.some(col => col.name === 'author');
-            if (!hasAuthor) {
-              logger.info('🔄 Migrating news_items table to add author column...');
-              DatabaseLogger.logMigration('add_author_column', 'started');
-              this.db!.exec(`
-                ALTER TABLE news_items ADD COLUMN author TEXT NOT NULL DEFAULT 'Anonymous';
-              `);
-              logger.info('✅ News items table migration completed');
-              DatabaseLogger.logMigration('add_author_column', 'completed');
-            }
-          }
-        });
-      }
+  // Items in every status; feeds use getNewsItemsBySort
+  async getAllNewsItems(query: AdminNewsQuery = {}): Promise<NewsItem[]> {
+    return this.store.getAllNewsItems(query);
+  }
+
+  // 'top' is ranked as of rankedAt: now for a first page, the cursor's instant after that
+  private hotRankingFor(sortType: SortType, rankedAt?: string): HotRanking | undefined {
+    return sortType === 'top' ? { ...this.hotRanking, at: rankedAt || new Date().toISOString() } : undefined;
+  }
+
+  async getNewsItemsBySort(sortType: SortType, options: NewsQueryOptions = {}): Promise<NewsItem[]> {
+    const rows = await this.store.listNewsItems(sortType, { ...options, hot: this.hotRankingFor(sortType) });
+    return rows.map(({ cursor_key, hot_score, ...item }) => item);
+  }
+
+  async getNewsPageBySort(sortType: SortType, options: NewsPageOptions): Promise<NewsPage> {
+    const by = options.by || 'blended';
+    const after = options.cursor ? decodeCursor(options.cursor, sortType, by) : undefined;
+    const hot = this.hotRankingFor(sortType, after?.ranked_at);
+
+    // Fetch one extra row to learn whether another page exists
+    const rows = await this.store.listNewsItems(sortType, {
+      since: options.since,
+      until: options.until,
+      limit: options.limit + 1,
+      by,
+      tag: options.tag,
+      after,
+      hot
     });
+
+    const pageRows = rows.slice(0, options.limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextCursor = rows.length > options.limit && last
+      ? encodeCursor({
+        sort: sortType,
+        by,
+        score: Number(last[SCORE_COLUMNS[by]] ?? 0),
+        created_at: last.cursor_key,
+        id: last.id,
+        hot_score: last.hot_score === undefined ? undefined : Number(last.hot_score),
+        ranked_at: hot?.at
+      })
+      : null;
+
+    return {
+      items: pageRows.map(({ cursor_key, hot_score, ...item }) => item),
+      nextCursor
+    };
+  }
+
+  // Published items only; parse user input with parseSearchQuery first
+  async searchNewsItems(search: NewsSearch, options: { limit: number; offset: number }): Promise<NewsItem[]> {
+    return this.store.searchNewsItems(search, options);
+  }
+
+  async getNewsItemById(id: number): Promise<NewsItem | null> {
+    return this.store.getNewsItemById(id);
   }
 
-  private async initializePostgresTables(): Promise<void> {
-    const sql = `
-      CREATE TABLE IF NOT EXISTS news_items (
-        id SERIAL PRIMARY KEY,
-        summary TEXT NOT NULL CHECK(length(summary) <= 200),
-        link TEXT NOT NULL,
-        author TEXT NOT NULL DEFAULT 'Anonymous',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        vote_score INTEGER DEFAULT 0
-      );
-
-      CREATE TABLE IF NOT EXISTS votes (
-        id SERIAL PRIMARY KEY,
-        news_item_id INTEGER NOT NULL,
-        vote_type TEXT NOT NULL CHECK(vote_type IN ('up', 'down')),
-        voter_ip TEXT NOT NULL,
-        vote_source TEXT NOT NULL DEFAULT 'human' CHECK(vote_source IN ('human', 'machine')),
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (news_item_id) REFERENCES news_items (id) ON DELETE CASCADE,
-        UNIQUE(news_item_id, voter_ip, vote_source)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_news_vote_score ON news_items(vote_score DESC, created_at DESC);
-      CREATE INDEX IF NOT EXISTS idx_votes_news_id ON votes(news_item_id);
-    `;
-    
-    if (this.pgClient) {
-      await this.pgClient.query(sql);
-      logger.info('✅ PostgreSQL tables initialized');
-      await this.migratePostgresTables();
+  // A moderator decision, so it also resolves the item's open flags
+  async setNewsItemStatus(id: number, status: NewsStatus): Promise<boolean> {
+    if (!(await this.store.setNewsItemStatus(id, status))) {
+      return false;
     }
+    await this.store.resolveFlags(id);
+    return true;
   }
 
-  private async migratePostgresTables(): Promise<void> {
-    if (!this.pgClient) return;
-    
-    try {
-      // Check if vote_source column exists in votes table
-      const voteColumns = await this.pgClient.query(`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'votes' AND column_name = 'vote_source'
-      `);
-      
-      if (voteColumns.rows.length === 0) {
-        logger.info('🔄 Migrating PostgreSQL votes table to add vote_source column...');
-        DatabaseLogger.logMigration('pg_add_vote_source', 'started');
-        await this.pgClient.query(`
-          ALTER TABLE votes ADD COLUMN vote_source TEXT NOT NULL DEFAULT 'human';
-          ALTER TABLE votes ADD CONSTRAINT votes_vote_source_check CHECK(vote_source IN ('human', 'machine'));
-          ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_news_item_id_voter_ip_key;
-          CREATE UNIQUE INDEX votes_unique_idx ON votes(news_item_id, voter_ip, vote_source);
-        `);
-        logger.info('✅ PostgreSQL votes table migration completed');
-        DatabaseLogger.logMigration('pg_add_vote_source', 'completed');
-      }
+  // Removes the row for good; moderators normally soft-delete with setNewsItemStatus
+  async deleteNewsItem(id: number): Promise<boolean> {
+    return this.store.deleteNewsItem(id);
+  }
 
-      // Check if author column exists in news_items table  
-      const newsColumns = await this.pgClient.query(`
-        SELECT column_name 
-        FROM information_schema.columns 
-        WHERE table_name = 'news_items' AND column_name = 'author'
-      `);
-      
-      if (newsColumns.rows.length === 0) {
-        logger.info('🔄 Migrating PostgreSQL news_items table to add author column...');
-        DatabaseLogger.logMigration('pg_add_author', 'started');
-        await this.pgClient.query(`
-          ALTER TABLE news_items ADD COLUMN author TEXT NOT NULL DEFAULT 'Anonymous';
-        `);
-        logger.info('✅ PostgreSQL news_items table migration completed');
-        DatabaseLogger.logMigration('pg_add_author', 'completed');
-      }
-    } catch (error) {
-      logger.error('❌ PostgreSQL migration error', error);
-      DatabaseLogger.logMigration('pg_migration', 'failed', error);
-      // Don't throw - let app continue with what it has
+  // Resolves true for a new flag, false when the reporter already flagged the
+  // item, and null when there is no published item to flag
+  async flagNewsItem(id: number, reason: FlagReason, details: string | null, reporterId: string): Promise<boolean | null> {
+    const item = await this.store.getNewsItemById(id);
+    if (!item || item.status !== 'published') {
+      return null;
     }
+    return this.store.addFlag({ news_item_id: id, reason, details, reporter_id: reporterId });
+  }
+
+  async getFlags(newsItemId: number): Promise<Flag[]> {
+    return this.store.getFlags(newsItemId);
+  }
+
+  async getFlaggedItems(options: { limit: number; offset: number }): Promise<FlaggedItem[]> {
+    return this.store.listFlaggedItems(options);
+  }
+
+  // Toggle semantics: repeating the voter's current vote clears it. Resolves null
+  // when there is no published item to vote on.
+  async vote(newsItemId: number, voteType: 'up' | 'down', voter: Voter): Promise<VoteChange | null> {
+    return this.store.updateVote(newsItemId, voter, previous => previous === voteType ? null : voteType);
   }
 
-  async addNewsItem(summary: string, link: string, author: string = 'Anonymous'): Promise<number> {
-    if (this.isPostgres && this.pgClient) {
-      return DatabaseLogger.traceQuery(
-        'insert',
-        'INSERT INTO news_items (summary, link, author) VALUES ($1, $2, $3) RETURNING id',
-        async () => {
-          const result = await this.pgClient!.query(
-            'INSERT INTO news_items (summary, link, author) VALUES ($1, $2, $3) RETURNING id',
-            [summary, link, author]
-          );
-          return result.rows[0].id;
-        },
-        { table: 'news_items', dbType: 'postgresql', params: [summary, link, author] }
-      );
-    } else {
-      return new Promise((resolve, reject) => {
-        const stmt = this.db!.prepare(`
-          INSERT INTO news_items (summary, link, author) 
-          VALUES (?, ?, ?)
-        `);
-        stmt.run(summary, link, author, function(this: any, err: Error | null) {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(this.lastID);
-          }
-        });
-        stmt.finalize();
+  // Sets the vote outright (null retracts it); the change is a no-op when it already matches
+  async setVote(newsItemId: number, voteType: 'up' | 'down' | null, voter: Voter): Promise<VoteChange | null> {
+    return this.store.updateVote(newsItemId, voter, () => voteType);
+  }
+
+  async getVoteHistory(newsItemId: number, options: { limit: number; offset: number }): Promise<Vote[]> {
+    return this.store.getVotes(newsItemId, options);
+  }
+
+  async getVoteCounts(newsItemId: number): Promise<VoteCounts> {
+    const counts = await this.getVoteCountsForItems([newsItemId]);
+    return counts.get(newsItemId)!;
+  }
+
+  // Reads the counter columns, one query per chunk of ids; every requested id gets an entry
+  async getVoteCountsForItems(newsItemIds: number[]): Promise<Map<number, VoteCounts>> {
+    const counts = new Map<number, VoteCounts>();
+    const ids = Array.from(new Set(newsItemIds));
+    ids.forEach(id => counts.set(id, {
+      human_upvotes: 0,
+      human_downvotes: 0,
+      machine_upvotes: 0,
+      machine_downvotes: 0
+    }));
+
+    for (let i = 0; i < ids.length; i += VOTE_COUNT_CHUNK_SIZE) {
+      const rows = await this.store.getVoteCountRows(ids.slice(i, i + VOTE_COUNT_CHUNK_SIZE));
+
+      rows.forEach(({ news_item_id, ...itemCounts }) => {
+        if (counts.has(news_item_id)) {
+          counts.set(news_item_id, itemCounts);
+        }
       });
     }
+
+    return counts;
   }
 
-  async getAllNewsItems(): Promise<NewsItem[]> {
-    if (this.isPostgres && this.pgClient) {
-      return DatabaseLogger.traceQuery(
-        'select',
-        'SELECT * FROM news_items ORDER BY vote_score DESC, created_at DESC',
-        async () => {
-          const result = await this.pgClient!.query(
-            'SELECT * FROM news_items ORDER BY vote_score DESC, created_at DESC'
-          );
-          return result.rows;
-        },
-        { table: 'news_items', dbType: 'postgresql' }
-      );
-    } else {
-      return new Promise((resolve, reject) => {
-        this.db!.all(`
-          SELECT * FROM news_items 
-          ORDER BY vote_score DESC, created_at DESC
-        `, (err, rows) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(rows as NewsItem[]);
-          }
-        });
-      });
+  // Tag slugs per item, one query per chunk of ids; every requested id gets an entry
+  async getTagsForItems(newsItemIds: number[]): Promise<Map<number, string[]>> {
+    const tags = new Map<number, string[]>();
+    const ids = Array.from(new Set(newsItemIds));
+    ids.forEach(id => tags.set(id, []));
+
+    for (let i = 0; i < ids.length; i += VOTE_COUNT_CHUNK_SIZE) {
+      const rows = await this.store.getItemTagRows(ids.slice(i, i + VOTE_COUNT_CHUNK_SIZE));
+      rows.forEach(row => tags.get(row.news_item_id)?.push(row.slug));
     }
+
+    return tags;
   }
 
-  async getNewsItemsBySort(sortType: 'top' | 'new' | 'classic'): Promise<NewsItem[]> {
-    let query = '';
-    
-    if (this.isPostgres) {
-      switch (sortType) {
-        case 'top':
-          query = `
-            SELECT * FROM news_items 
-            WHERE DATE(created_at) = CURRENT_DATE
-            ORDER BY vote_score DESC, created_at DESC
-          `;
-          break;
-        case 'new':
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY created_at DESC
-          `;
-          break;
-        case 'classic':
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY vote_score DESC, created_at DESC
-          `;
-          break;
-        default:
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY vote_score DESC, created_at DESC
-          `;
-      }
-      
-      if (this.pgClient) {
-        return DatabaseLogger.traceQuery(
-          'select',
-          query,
-          async () => {
-            const result = await this.pgClient!.query(query);
-            return result.rows;
-          },
-          { table: 'news_items', dbType: 'postgresql' }
-        );
+  // Fills the optional per-source vote count fields and the tags on each item
+  async attachItemDetails(items: NewsItem[]): Promise<NewsItem[]> {
+    if (items.length === 0) return items;
+
+    const ids = items.map(item => item.id);
+    const counts = await this.getVoteCountsForItems(ids);
+    const tags = await this.getTagsForItems(ids);
+    return items.map(item => ({ ...item, ...counts.get(item.id), tags: tags.get(item.id) }));
+  }
+
+  // A top-level comment, or a reply when parentId is set. Resolves null when there is no
+  // published item to comment on; rejects with CommentThreadError when the parent isn't a
+  // comment on this item or takes no more replies.
+  async addComment(newsItemId: number, parentId: number | null, body: string, author: string, commenter: Voter): Promise<Comment | null> {
+    const item = await this.store.getNewsItemById(newsItemId);
+    if (!item || item.status !== 'published') {
+      return null;
+    }
+
+    let depth = 0;
+    if (parentId !== null) {
+      const parent = await this.store.getComment(parentId);
+      if (!parent || parent.news_item_id !== newsItemId) {
+        throw new CommentThreadError(`Comment ${parentId} is not on news item ${newsItemId}`);
       }
-    } else {
-      switch (sortType) {
-        case 'top':
-          query = `
-            SELECT * FROM news_items 
-            WHERE date(created_at) = date('now')
-            ORDER BY vote_score DESC, created_at DESC
-          `;
-          break;
-        case 'new':
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY created_at DESC
-          `;
-          break;
-        case 'classic':
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY vote_score DESC, created_at DESC
-          `;
-          break;
-        default:
-          query = `
-            SELECT * FROM news_items 
-            ORDER BY vote_score DESC, created_at DESC
-          `;
+      if (!acceptsReplies(parent)) {
+        throw new CommentThreadError(parent.status === 'deleted' ? 'Deleted comments take no replies' : 'This thread is nested too deeply for more replies');
       }
-      
-      return new Promise((resolve, reject) => {
-        this.db!.all(query, (err, rows) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(rows as NewsItem[]);
-          }
-        });
-      });
+      depth = parent.depth + 1;
     }
-    
-    return [];
+
+    return this.store.addComment({
+      news_item_id: newsItemId,
+      parent_id: parentId,
+      depth,
+      body,
+      author,
+      comment_source: commenter.source,
+      commenter_id: commenter.id,
+      api_key_id: commenter.apiKeyId ?? null
+    });
   }
 
-  async vote(newsItemId: number, voteType: 'up' | 'down', voterIp: string, voteSource: 'human' | 'machine' = 'human'): Promise<boolean> {
-    if (this.isPostgres && this.pgClient) {
-      try {
-        // Check existing vote
-        const existingVote = await this.pgClient.query(
-          'SELECT vote_type FROM votes WHERE news_item_id = $1 AND voter_ip = $2 AND vote_source = $3',
-          [newsItemId, voterIp, voteSource]
-        );
-
-        if (existingVote.rows.length > 0) {
-          if (existingVote.rows[0].vote_type === voteType) {
-            return false; // Same vote, no change
-          }
-          
-          // Update existing vote
-          await this.pgClient.query(
-            'UPDATE votes SET vote_type = $1, created_at = CURRENT_TIMESTAMP WHERE news_item_id = $2 AND voter_ip = $3 AND vote_source = $4',
-            [voteType, newsItemId, voterIp, voteSource]
-          );
-        } else {
-          // Insert new vote
-          await this.pgClient.query(
-            'INSERT INTO votes (news_item_id, vote_type, voter_ip, vote_source) VALUES ($1, $2, $3, $4)',
-            [newsItemId, voteType, voterIp, voteSource]
-          );
-        }
+  async getComment(id: number): Promise<Comment | null> {
+    return this.store.getComment(id);
+  }
 
-        await this.updateVoteScore(newsItemId);
-        return true;
-      } catch (error) {
-        throw error;
-      }
-    } else {
-      // SQLite version
-      return new Promise((resolve, reject) => {
-        this.db!.serialize(() => {
-          this.db!.get(`
-            SELECT vote_type FROM votes 
-            WHERE news_item_id = ? AND voter_ip = ? AND vote_source = ?
-          `, [newsItemId, voterIp, voteSource], (err, existingVote: any) => {
-            if (err) {
-              reject(err);
-              return;
-            }
-
-            if (existingVote) {
-              if (existingVote.vote_type === voteType) {
-                resolve(false);
-                return;
-              }
-              
-              this.db!.run(`
-                UPDATE votes 
-                SET vote_type = ?, created_at = CURRENT_TIMESTAMP 
-                WHERE news_item_id = ? AND voter_ip = ? AND vote_source = ?
-              `, [voteType, newsItemId, voterIp, voteSource], (err) => {
-                if (err) {
-                  reject(err);
-                  return;
-                }
-                this.updateVoteScore(newsItemId).then(() => resolve(true)).catch(reject);
-              });
-            } else {
-              this.db!.run(`
-                INSERT INTO votes (news_item_id, vote_type, voter_ip, vote_source) 
-                VALUES (?, ?, ?, ?)
-              `, [newsItemId, voteType, voterIp, voteSource], (err) => {
-                if (err) {
-                  reject(err);
-                  return;
-                }
-                this.updateVoteScore(newsItemId).then(() => resolve(true)).catch(reject);
-              });
-            }
-          });
-        });
-      });
-    }
+  // Replies to parentId, or the top-level comments for null; oldest first
+  async getComments(newsItemId: number, parentId: number | null, options: { limit: number; offset: number }): Promise<Comment[]> {
+    return this.store.listComments(newsItemId, parentId, options);
   }
 
-  private async updateVoteScore(newsItemId: number): Promise<void> {
-    if (this.isPostgres && this.pgClient) {
-      const result = await this.pgClient.query(`
-        SELECT 
-          SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE 0 END) as upvotes,
-          SUM(CASE WHEN vote_type = 'down' THEN 1 ELSE 0 END) as downvotes
-        FROM votes 
-        WHERE news_item_id = $1
-      `, [newsItemId]);
-
-      const upvotes = parseInt(result.rows[0].upvotes) || 0;
-      const downvotes = parseInt(result.rows[0].downvotes) || 0;
-      const voteScore = upvotes - downvotes;
-
-      await this.pgClient.query(
-        'UPDATE news_items SET vote_score = $1 WHERE id = $2',
-        [voteScore, newsItemId]
-      );
-    } else {
-      return new Promise((resolve, reject) => {
-        this.db!.get(`
-          SELECT 
-            SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE 0 END) as upvotes,
-            SUM(CASE WHEN vote_type = 'down' THEN 1 ELSE 0 END) as downvotes
-          FROM votes 
-          WHERE news_item_id = ?
-        `, [newsItemId], (err, result: any) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-
-          const voteScore = (result.upvotes || 0) - (result.downvotes || 0);
-          this.db!.run(`
-            UPDATE news_items 
-            SET vote_score = ? 
-            WHERE id = ?
-          `, [voteScore, newsItemId], (err) => {
-            if (err) {
-              reject(err);
-            } else {
-              resolve();
-            }
-          });
-        });
-      });
-    }
+  // Soft delete: the comment keeps its place in the thread without its content
+  async deleteComment(id: number): Promise<boolean> {
+    return this.store.deleteComment(id);
   }
 
-  async getVoteCounts(newsItemId: number): Promise<{human_upvotes: number, human_downvotes: number, machine_upvotes: number, machine_downvotes: number}> {
-    if (this.isPostgres && this.pgClient) {
-      const result = await this.pgClient.query(`
-        SELECT 
-          vote_source,
-          SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE 0 END) as upvotes,
-          SUM(CASE WHEN vote_type = 'down' THEN 1 ELSE 0 END) as downvotes
-        FROM votes 
-        WHERE news_item_id = $1
-        GROUP BY vote_source
-      `, [newsItemId]);
-
-      const counts = {
-        human_upvotes: 0,
-        human_downvotes: 0,
-        machine_upvotes: 0,
-        machine_downvotes: 0
-      };
-
-      result.rows.forEach(row => {
-        if (row.vote_source === 'human') {
-          counts.human_upvotes = parseInt(row.upvotes) || 0;
-          counts.human_downvotes = parseInt(row.downvotes) || 0;
-        } else if (row.vote_source === 'machine') {
-          counts.machine_upvotes = parseInt(row.upvotes) || 0;
-          counts.machine_downvotes = parseInt(row.downvotes) || 0;
-        }
-      });
+  // Sorted by label
+  async listTags(): Promise<Tag[]> {
+    return this.store.listTags();
+  }
 
-      return counts;
-    } else {
-      return new Promise((resolve, reject) => {
-        this.db!.all(`
-          SELECT 
-            vote_source,
-            SUM(CASE WHEN vote_type = 'up' THEN 1 ELSE 0 END) as upvotes,
-            SUM(CASE WHEN vote_type = 'down' THEN 1 ELSE 0 END) as downvotes
-          FROM votes 
-          WHERE news_item_id = ?
-          GROUP BY vote_source
-        `, [newsItemId], (err, rows: any[]) => {
-          if (err) {
-            reject(err);
-            return;
-          }
-
-          const counts = {
-            human_upvotes: 0,
-            human_downvotes: 0,
-            machine_upvotes: 0,
-            machine_downvotes: 0
-          };
-
-          rows.forEach(row => {
-            if (row.vote_source === 'human') {
-              counts.human_upvotes = row.upvotes || 0;
-              counts.human_downvotes = row.downvotes || 0;
-            } else if (row.vote_source === 'machine') {
-              counts.machine_upvotes = row.upvotes || 0;
-              counts.machine_downvotes = row.downvotes || 0;
-            }
-          });
-
-          resolve(counts);
-        });
-      });
-    }
+  async findTag(slug: string): Promise<Tag | null> {
+    return (await this.store.listTags()).find(tag => tag.slug === slug) || null;
+  }
+
+  async createTag(tag: NewTag): Promise<Tag> {
+    return this.store.createTag(tag);
+  }
+
+  // Untags every item that had it
+  async deleteTag(slug: string): Promise<boolean> {
+    return this.store.deleteTag(slug);
+  }
+
+  async purgeVotes(filter: VotePurgeFilter): Promise<number> {
+    return this.store.purgeVotes(filter);
+  }
+
+  async recomputeVoteCounters(): Promise<number> {
+    return this.store.recomputeVoteCounters();
+  }
+
+  // before is ISO 8601; see NewsStore.expireVoterIds
+  async expireVoterIds(before: string): Promise<{ votes: number; flags: number; comments: number; submissions: number }> {
+    return this.store.expireVoterIds(before);
+  }
+
+  async getStats(): Promise<BoardStats> {
+    return this.store.getStats();
+  }
+
+  async createApiKey(key: NewApiKey): Promise<ApiKey> {
+    return this.store.createApiKey(key);
+  }
+
+  async findApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+    return this.store.findApiKey(keyId);
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    return this.store.listApiKeys();
+  }
+
+  async revokeApiKey(keyId: string): Promise<boolean> {
+    return this.store.revokeApiKey(keyId);
+  }
+
+  async touchApiKey(id: number): Promise<void> {
+    return this.store.touchApiKey(id);
+  }
+
+  async updateRateLimitBucket(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket> {
+    return this.store.updateRateLimitBucket(key, update);
+  }
+
+  async evictRateLimitBuckets(now: number): Promise<number> {
+    return this.store.evictRateLimitBuckets(now);
+  }
+
+  async healthCheck(): Promise<StoreHealth> {
+    return this.store.healthCheck();
   }
 
   async close(): Promise<void> {
-    if (this.isPostgres && this.pgClient) {
-      await this.pgClient.end();
-      logger.info('PostgreSQL connection closed');
-    } else if (this.db) {
-      this.db.close();
-      logger.info('SQLite connection closed');
-    }
+    await this.store.close();
   }
 }
 
-export default DatabaseManager;
\ No newline at end of file
+export default DatabaseManager;
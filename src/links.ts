@@ -0,0 +1,59 @@
+import { NewsItem } from './storage';
+
+// Query parameters that only identify where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'igshid',
+  'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'ref_src', 'ref_url'
+]);
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower);
+}
+
+export interface CanonicalLink {
+  // What gets stored and shown: tracking params, fragment and trailing slash removed
+  link: string;
+  // Duplicate-detection key: the cleaned link without scheme or leading www., query sorted
+  canonical: string;
+}
+
+// Expects a URL that already passed the content policy's validUrlRule
+export function canonicalizeLink(input: string): CanonicalLink {
+  const url = new URL(input.trim());
+
+  url.hash = '';
+  Array.from(url.searchParams.keys())
+    .filter(isTrackingParam)
+    .forEach(name => url.searchParams.delete(name));
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+
+  const query = new URLSearchParams(url.searchParams);
+  query.sort();
+  const queryString = query.toString();
+  const path = url.pathname === '/' ? '' : url.pathname;
+
+  return {
+    link: url.toString(),
+    canonical: `${url.host.replace(/^www\./, '')}${path}${queryString ? `?${queryString}` : ''}`
+  };
+}
+
+export class DuplicateLinkError extends Error {
+  statusCode = 409;
+
+  constructor(public existing: NewsItem) {
+    super('This link has already been submitted');
+    this.name = 'DuplicateLinkError';
+  }
+}
+
+// What callers may reveal about the existing item: hidden items are not pointed at
+export function describeDuplicate(existing: NewsItem): { id: number; summary: string; link: string } | null {
+  if (existing.status && existing.status !== 'published') {
+    return null;
+  }
+  return { id: existing.id, summary: existing.summary, link: existing.link };
+}
@@ -0,0 +1,263 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import DatabaseManager, { ApiKey, ApiKeyScope, Voter } from '../database';
+import { hasScope, machineVoter } from '../apiKeys';
+import { validateNewsSubmission, validateCommentSubmission } from '../validation';
+import { DuplicateLinkError, describeDuplicate } from '../links';
+import { PolicyViolationError } from '../policy';
+import { MAX_TAGS_PER_ITEM, newsCategory } from '../tags';
+import { CommentThreadError, MAX_COMMENT_LENGTH, toPublicComment } from '../comments';
+import { toPublicNewsItem } from '../news';
+import { logger, metrics, tracing } from '../telemetry';
+
+type SortType = 'top' | 'new' | 'classic';
+
+const SORTS: SortType[] = ['top', 'new', 'classic'];
+
+// Page size for the list tools; resources always return the default
+const DEFAULT_LIST_LIMIT = 30;
+const MAX_LIST_LIMIT = 100;
+
+export interface McpServerOptions {
+  transport: 'stdio' | 'http';
+  // Key the HTTP client authenticated with; the write tools need one over HTTP
+  apiKey?: ApiKey | null;
+  // Voter identity for stdio, where the local operator is trusted without a key
+  voterId?: string;
+}
+
+function jsonContent(data: unknown) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }]
+  };
+}
+
+// Takes the error body to report; an Error is reduced to its message
+function errorContent(error: unknown) {
+  const body = error instanceof Error ? { error: error.message } : error;
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(body, null, 2) }],
+    isError: true
+  };
+}
+
+export function createMcpServer(db: DatabaseManager, options: McpServerOptions): McpServer {
+  const server = new McpServer({
+    name: 'mecha-board',
+    version: process.env.APP_VERSION || '1.0.0'
+  });
+
+  // The machine identity a write tool acts as, or an error message when the client may not use it
+  const authorize = (scope: ApiKeyScope): { voter: Voter } | { error: string } => {
+    if (options.apiKey) {
+      return hasScope(options.apiKey, scope)
+        ? { voter: machineVoter(options.apiKey) }
+        : { error: `API key lacks the '${scope}' scope` };
+    }
+    if (options.transport === 'stdio') {
+      return { voter: { id: options.voterId || 'mcp-stdio', source: 'machine' } };
+    }
+    return { error: `An API key with the '${scope}' scope is required (Authorization: Bearer <key>)` };
+  };
+
+  server.registerTool(
+    'list_news',
+    {
+      title: 'List news',
+      description: 'List news items on the board with their human and machine vote counts',
+      inputSchema: {
+        sort: z.enum(['top', 'new', 'classic']).default('top')
+          .describe("'top' is recent posts ranked by votes with time decay, 'new' is most recent, 'classic' is best of all time"),
+        by: z.enum(['blended', 'human', 'machine']).default('blended')
+          .describe("Votes 'top' and 'classic' rank by: 'human' or 'machine' only, or both blended"),
+        tag: z.string().optional().describe('Only items with this tag slug (see list_tags)'),
+        limit: z.number().int().min(1).max(MAX_LIST_LIMIT).default(DEFAULT_LIST_LIMIT)
+      }
+    },
+    async ({ sort, by, tag, limit }) => tracing.traceAsync('mcp_list_news', async () => {
+      if (tag && !(await db.findTag(tag))) {
+        return errorContent({ error: `Unknown tag '${tag}'; call list_tags for the available ones` });
+      }
+      const items = await db.getNewsItemsBySort(sort, { limit, by, tag });
+      return jsonContent((await db.attachItemDetails(items)).map(toPublicNewsItem));
+    })
+  );
+
+  server.registerTool(
+    'list_tags',
+    {
+      title: 'List tags',
+      description: 'List the topic tags news items can carry; submit_news and list_news take their slugs'
+    },
+    async () => tracing.traceAsync('mcp_list_tags', async () => {
+      const tags = await db.listTags();
+      return jsonContent(tags.map(tag => ({ slug: tag.slug, label: tag.label })));
+    })
+  );
+
+  server.registerTool(
+    'submit_news',
+    {
+      title: 'Submit news',
+      description: 'Post a new news item to the board',
+      inputSchema: {
+        summary: z.string().describe('One-line summary, max 200 characters'),
+        link: z.string().describe('URL of the full article'),
+        author: z.string().optional().describe('Signature shown on the post, max 50 characters'),
+        tags: z.array(z.string()).max(MAX_TAGS_PER_ITEM).optional()
+          .describe(`Up to ${MAX_TAGS_PER_ITEM} tag slugs from list_tags; the first is the post's category`)
+      }
+    },
+    async (args) => tracing.traceAsync('mcp_submit_news', async () => {
+      const auth = authorize('submit');
+      if ('error' in auth) {
+        return errorContent({ error: auth.error });
+      }
+
+      const validation = validateNewsSubmission(args);
+      if (!validation.valid) {
+        return errorContent(validation.error);
+      }
+
+      const { summary, link, author, tags } = validation.value;
+      let newsId: number;
+      try {
+        newsId = await db.addNewsItem(summary, link, author, auth.voter, tags);
+      } catch (error) {
+        if (error instanceof PolicyViolationError) {
+          return errorContent({ error: error.message, violations: error.violations });
+        }
+        if (error instanceof DuplicateLinkError) {
+          const existing = describeDuplicate(error.existing);
+          return errorContent({ error: error.message, ...(existing ? { existing } : {}) });
+        }
+        throw error;
+      }
+
+      metrics.recordNewsItem('mcp', author === 'Anonymous' ? 'anonymous' : 'named', newsCategory(tags));
+      logger.info('News item created', { newsId, summary, link, author, tags, transport: options.transport });
+
+      const [item] = await db.attachItemDetails([(await db.getNewsItemById(newsId))!]);
+      return jsonContent(toPublicNewsItem(item));
+    })
+  );
+
+  server.registerTool(
+    'vote_news',
+    {
+      title: 'Vote on news',
+      description: 'Cast a machine upvote or downvote on a news item',
+      inputSchema: {
+        newsId: z.number().int().positive(),
+        voteType: z.enum(['up', 'down'])
+      }
+    },
+    async ({ newsId, voteType }) => tracing.traceAsync('mcp_vote_news', async () => {
+      const auth = authorize('vote');
+      if ('error' in auth) {
+        return errorContent({ error: auth.error });
+      }
+
+      const change = await db.setVote(newsId, voteType, auth.voter);
+
+      if (!change) {
+        return errorContent({ error: `News item ${newsId} not found` });
+      }
+      if (change.previous === change.current) {
+        return errorContent({ error: 'Vote unchanged' });
+      }
+
+      metrics.recordVote(voteType, 'machine');
+      logger.info('Vote recorded', { newsId, voteType, voteSource: 'machine', transport: options.transport });
+
+      return jsonContent({ newsId, voteType, ...(await db.getVoteCounts(newsId)) });
+    })
+  );
+
+  server.registerTool(
+    'list_comments',
+    {
+      title: 'List comments',
+      description: 'List the comments on a news item, oldest first: the top-level ones, or the replies to parentId',
+      inputSchema: {
+        newsId: z.number().int().positive(),
+        parentId: z.number().int().positive().optional().describe('List the replies to this comment instead'),
+        limit: z.number().int().min(1).max(MAX_LIST_LIMIT).default(DEFAULT_LIST_LIMIT),
+        offset: z.number().int().min(0).default(0)
+      }
+    },
+    async ({ newsId, parentId, limit, offset }) => tracing.traceAsync('mcp_list_comments', async () => {
+      const item = await db.getNewsItemById(newsId);
+      if (!item || item.status !== 'published') {
+        return errorContent({ error: `News item ${newsId} not found` });
+      }
+      const comments = await db.getComments(newsId, parentId ?? null, { limit, offset });
+      return jsonContent(comments.map(toPublicComment));
+    })
+  );
+
+  server.registerTool(
+    'comment_news',
+    {
+      title: 'Comment on news',
+      description: 'Post a machine comment on a news item, or a reply to one of its comments',
+      inputSchema: {
+        newsId: z.number().int().positive(),
+        body: z.string().describe(`The comment, max ${MAX_COMMENT_LENGTH} characters`),
+        author: z.string().optional().describe('Signature shown on the comment, max 50 characters'),
+        parentId: z.number().int().positive().optional().describe('The comment to reply to (see list_comments)')
+      }
+    },
+    async ({ newsId, body, author, parentId }) => tracing.traceAsync('mcp_comment_news', async () => {
+      const auth = authorize('comment');
+      if ('error' in auth) {
+        return errorContent({ error: auth.error });
+      }
+
+      const validation = validateCommentSubmission({ body, author, parentId });
+      if (!validation.valid) {
+        return errorContent(validation.error);
+      }
+
+      let comment;
+      try {
+        comment = await db.addComment(newsId, validation.value.parentId, validation.value.body, validation.value.author, auth.voter);
+      } catch (error) {
+        if (error instanceof CommentThreadError) {
+          return errorContent({ error: error.message });
+        }
+        throw error;
+      }
+      if (!comment) {
+        return errorContent({ error: `News item ${newsId} not found` });
+      }
+
+      logger.info('Comment added', { newsId, commentId: comment.id, parentId: comment.parent_id, source: 'machine', transport: options.transport });
+      return jsonContent(toPublicComment(comment));
+    })
+  );
+
+  SORTS.forEach(sort => {
+    server.registerResource(
+      `news-${sort}`,
+      `news://${sort}`,
+      {
+        title: `News (${sort})`,
+        description: `The first ${DEFAULT_LIST_LIMIT} news items in '${sort}' order with vote counts`,
+        mimeType: 'application/json'
+      },
+      async (uri) => {
+        const items = await db.getNewsItemsBySort(sort, { limit: DEFAULT_LIST_LIMIT });
+        return {
+          contents: [{
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify((await db.attachItemDetails(items)).map(toPublicNewsItem), null, 2)
+          }]
+        };
+      }
+    );
+  });
+
+  return server;
+}
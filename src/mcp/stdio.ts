@@ -0,0 +1,33 @@
+// stdout carries the MCP protocol, so logging must be redirected before telemetry loads
+process.env.LOG_TO_STDERR = 'true';
+console.log = console.error;
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import DatabaseManager from '../database';
+import { createMcpServer } from './server';
+import { logger } from '../telemetry';
+
+async function main() {
+  const db = new DatabaseManager();
+  await db.ready;
+  const server = createMcpServer(db, {
+    transport: 'stdio',
+    voterId: process.env.MCP_VOTER_ID || 'mcp-stdio'
+  });
+
+  const shutdown = async () => {
+    await server.close();
+    await db.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  await server.connect(new StdioServerTransport());
+  logger.info('MCP stdio server started');
+}
+
+main().catch(error => {
+  logger.error('Failed to start MCP stdio server', error);
+  process.exit(1);
+});
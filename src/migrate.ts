@@ -0,0 +1,53 @@
+// Schema migration CLI: npm run migrate -- status|up|down [--dry-run] [--to <version>] [--steps <n>]
+import DatabaseManager from './database';
+import { logger } from './telemetry';
+
+const USAGE = 'Usage: migrate <status|up|down> [--dry-run] [--to <version>] [--steps <n>]';
+
+function getFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+
+  if (!['status', 'up', 'down'].includes(command)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const db = new DatabaseManager({ autoMigrate: false });
+  await db.ready;
+  const migrator = db.getMigrator();
+
+  try {
+    if (command === 'status') {
+      const statuses = await migrator.status();
+      statuses.forEach(status => {
+        console.log(`${status.applied ? '[x]' : '[ ]'} ${status.version}_${status.name}${status.appliedAt ? `  (${status.appliedAt})` : ''}`);
+      });
+    } else if (command === 'up') {
+      const applied = await migrator.up({ dryRun, to: getFlag(args, '--to') });
+      console.log(applied.length === 0
+        ? 'Database is up to date'
+        : `${dryRun ? 'Would apply' : 'Applied'}: ${applied.map(m => `${m.version}_${m.name}`).join(', ')}`);
+    } else {
+      const steps = parseInt(getFlag(args, '--steps') || '1');
+      const reverted = await migrator.down({ dryRun, steps });
+      console.log(reverted.length === 0
+        ? 'Nothing to roll back'
+        : `${dryRun ? 'Would roll back' : 'Rolled back'}: ${reverted.map(m => `${m.version}_${m.name}`).join(', ')}`);
+    }
+  } catch (error) {
+    logger.error('Migration command failed', error);
+    await db.close();
+    process.exit(1);
+  }
+
+  await db.close();
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+import { logger, DatabaseLogger } from './telemetry';
+
+export type Dialect = 'sqlite' | 'postgresql';
+
+// Low-level access a backend hands to the migrator; DatabaseManager provides one per dialect
+export interface MigrationExecutor {
+  dialect: Dialect;
+  exec(sql: string): Promise<void>;
+  query(sql: string, params?: any[]): Promise<any[]>;
+  transaction<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  tableExists(table: string): Promise<boolean>;
+}
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string | null;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  appliedAt: string | null;
+}
+
+export interface MigrationRunOptions {
+  dryRun?: boolean;
+}
+
+// Resolves to <repo>/migrations from both src/ (ts-node) and dist/ (compiled)
+export const MIGRATIONS_DIR = path.join(__dirname, '../migrations');
+
+// The schema created by the pre-migration code; databases that already have
+// news_items but no schema_migrations table are recorded as being at this version
+const BASELINE_VERSION = '001';
+
+export class Migrator {
+  constructor(
+    private executor: MigrationExecutor,
+    private migrationsDir: string = MIGRATIONS_DIR
+  ) {}
+
+  loadMigrations(): Migration[] {
+    const dialect = this.executor.dialect;
+
+    return fs.readdirSync(this.migrationsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && /^\d+_/.test(entry.name))
+      .map(entry => entry.name)
+      .sort()
+      .map(dirName => {
+        const [version, ...nameParts] = dirName.split('_');
+        const dir = path.join(this.migrationsDir, dirName);
+        const upPath = path.join(dir, `${dialect}.up.sql`);
+        const downPath = path.join(dir, `${dialect}.down.sql`);
+
+        if (!fs.existsSync(upPath)) {
+          throw new Error(`Migration ${dirName} has no ${dialect}.up.sql`);
+        }
+
+        return {
+          version,
+          name: nameParts.join('_'),
+          up: fs.readFileSync(upPath, 'utf8'),
+          down: fs.existsSync(downPath) ? fs.readFileSync(downPath, 'utf8') : null
+        };
+      });
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getApplied();
+
+    return this.loadMigrations().map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version) || null
+    }));
+  }
+
+  async up(options: MigrationRunOptions & { to?: string } = {}): Promise<Migration[]> {
+    if (!options.dryRun) {
+      await this.ensureMigrationsTable();
+    }
+
+    const applied = await this.getApplied();
+    const pending = this.loadMigrations()
+      .filter(migration => !applied.has(migration.version))
+      .filter(migration => !options.to || migration.version <= options.to);
+
+    for (const migration of pending) {
+      await this.apply(migration, 'up', options.dryRun);
+    }
+
+    return pending;
+  }
+
+  async down(options: MigrationRunOptions & { steps?: number } = {}): Promise<Migration[]> {
+    const applied = await this.getApplied();
+    const toRevert = this.loadMigrations()
+      .filter(migration => applied.has(migration.version))
+      .reverse()
+      .slice(0, options.steps ?? 1);
+
+    for (const migration of toRevert) {
+      if (migration.down === null) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no ${this.executor.dialect}.down.sql`);
+      }
+      await this.apply(migration, 'down', options.dryRun);
+    }
+
+    return toRevert;
+  }
+
+  private async apply(migration: Migration, direction: 'up' | 'down', dryRun?: boolean): Promise<void> {
+    const label = `${migration.version}_${migration.name}${direction === 'down' ? ' (down)' : ''}`;
+    const sql = direction === 'up' ? migration.up : migration.down!;
+
+    if (dryRun) {
+      logger.info(`Dry run: would apply migration ${label}`, { sql });
+      return;
+    }
+
+    DatabaseLogger.logMigration(label, 'started');
+    try {
+      await this.executor.transaction(`migration_${migration.version}_${direction}`, async () => {
+        await this.executor.exec(sql);
+        if (direction === 'up') {
+          await this.executor.query(
+            `INSERT INTO schema_migrations (version, name) VALUES (${this.placeholder(1)}, ${this.placeholder(2)})`,
+            [migration.version, migration.name]
+          );
+        } else {
+          await this.executor.query(
+            `DELETE FROM schema_migrations WHERE version = ${this.placeholder(1)}`,
+            [migration.version]
+          );
+        }
+      });
+      DatabaseLogger.logMigration(label, 'completed');
+    } catch (error) {
+      DatabaseLogger.logMigration(label, 'failed', error);
+      throw error;
+    }
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    if (await this.executor.tableExists('schema_migrations')) {
+      return;
+    }
+
+    const isLegacyDatabase = await this.executor.tableExists('news_items');
+
+    await this.executor.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    if (isLegacyDatabase) {
+      const baseline = this.loadMigrations().find(migration => migration.version === BASELINE_VERSION);
+      if (baseline) {
+        await this.executor.query(
+          `INSERT INTO schema_migrations (version, name) VALUES (${this.placeholder(1)}, ${this.placeholder(2)})`,
+          [baseline.version, baseline.name]
+        );
+        logger.info('Existing schema recorded as baseline migration', { version: baseline.version });
+      }
+    }
+  }
+
+  private async getApplied(): Promise<Map<string, string>> {
+    if (!(await this.executor.tableExists('schema_migrations'))) {
+      return await this.executor.tableExists('news_items')
+        ? new Map([[BASELINE_VERSION, 'before migrations']])
+        : new Map();
+    }
+
+    const rows = await this.executor.query('SELECT version, applied_at FROM schema_migrations ORDER BY version');
+    return new Map(rows.map(row => [String(row.version), String(row.applied_at)]));
+  }
+
+  private placeholder(index: number): string {
+    return this.executor.dialect === 'postgresql' ? `$${index}` : '?';
+  }
+}
@@ -0,0 +1,15 @@
+import { NewsItem } from './storage';
+
+// What readers see of a news item: the submitting API key, the submitter's hashed
+// address and the duplicate-detection key stay internal
+export type PublicNewsItem = Omit<NewsItem, 'api_key_id' | 'canonical_url' | 'submitter_id'>;
+
+export function toPublicNewsItem({ api_key_id, canonical_url, submitter_id, ...item }: NewsItem): PublicNewsItem {
+  return item;
+}
+
+// Moderators see items as stored, except the submitter id: like a voter id, it is
+// personal data that only the quota needs
+export function toModeratorNewsItem<T extends NewsItem>({ submitter_id, ...item }: T): Omit<T, 'submitter_id'> {
+  return item;
+}
@@ -0,0 +1,96 @@
+import { PolicyConfig, PolicyContext, PolicyRule, PolicyViolation, Submission } from './types';
+import {
+  maxLengthRule,
+  validUrlRule,
+  requireHttpsRule,
+  domainListRule,
+  bannedWordsRule,
+  authorQuotaRule,
+  tagsRule
+} from './rules';
+import { MAX_TAGS_PER_ITEM } from '../tags';
+
+export * from './types';
+export * from './rules';
+
+export const MAX_SUMMARY_LENGTH = 200;
+export const MAX_AUTHOR_LENGTH = 50;
+
+export class PolicyViolationError extends Error {
+  statusCode = 400;
+
+  constructor(public violations: PolicyViolation[]) {
+    super(violations[0]?.message || 'Submission rejected by content policy');
+    this.name = 'PolicyViolationError';
+  }
+}
+
+// Runs every rule and collects all violations, so a form can show each problem at once
+export class ContentPolicy {
+  constructor(private rules: PolicyRule[]) {}
+
+  async evaluate(submission: Submission, context: PolicyContext): Promise<PolicyViolation[]> {
+    const results = await Promise.all(this.rules.map(rule => rule.check(submission, context)));
+    return results.flat();
+  }
+
+  // Rejects with PolicyViolationError when any rule objects
+  async enforce(submission: Submission, context: PolicyContext): Promise<void> {
+    const violations = await this.evaluate(submission, context);
+    if (violations.length > 0) {
+      throw new PolicyViolationError(violations);
+    }
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+export function loadPolicyConfig(env: NodeJS.ProcessEnv = process.env): PolicyConfig {
+  return {
+    allowedDomains: parseList(env.POLICY_ALLOWED_DOMAINS).map(domain => domain.replace(/^www\./, '')),
+    deniedDomains: parseList(env.POLICY_DENIED_DOMAINS).map(domain => domain.replace(/^www\./, '')),
+    bannedWords: parseList(env.POLICY_BANNED_WORDS),
+    requireHttps: env.POLICY_REQUIRE_HTTPS === 'true',
+    authorQuota: parseNumber(env.POLICY_AUTHOR_QUOTA, 0, 'POLICY_AUTHOR_QUOTA'),
+    authorQuotaWindowHours: parseNumber(env.POLICY_AUTHOR_QUOTA_WINDOW_HOURS, 24, 'POLICY_AUTHOR_QUOTA_WINDOW_HOURS')
+  };
+}
+
+// Length, URL and tag checks always apply; the rest are switched on by configuration
+export function createContentPolicy(config: PolicyConfig = loadPolicyConfig()): ContentPolicy {
+  const rules: PolicyRule[] = [
+    maxLengthRule('summary', MAX_SUMMARY_LENGTH),
+    maxLengthRule('author', MAX_AUTHOR_LENGTH),
+    validUrlRule(),
+    tagsRule(MAX_TAGS_PER_ITEM)
+  ];
+
+  if (config.requireHttps) {
+    rules.push(requireHttpsRule());
+  }
+  if (config.allowedDomains.length > 0 || config.deniedDomains.length > 0) {
+    rules.push(domainListRule(config.allowedDomains, config.deniedDomains));
+  }
+  if (config.bannedWords.length > 0) {
+    rules.push(bannedWordsRule(config.bannedWords));
+  }
+  if (config.authorQuota > 0) {
+    rules.push(authorQuotaRule(config.authorQuota, config.authorQuotaWindowHours));
+  }
+
+  return new ContentPolicy(rules);
+}
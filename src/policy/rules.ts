@@ -0,0 +1,157 @@
+import { PolicyField, PolicyRule, Submission } from './types';
+
+const FIELD_LABELS: Record<PolicyField, string> = {
+  summary: 'Summary',
+  link: 'Link',
+  author: 'Author',
+  tags: 'Tags'
+};
+
+// Null when the link doesn't parse; validUrlRule reports that case
+function parseLink(link: string): URL | null {
+  try {
+    return new URL(link);
+  } catch {
+    return null;
+  }
+}
+
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function maxLengthRule(field: 'summary' | 'author', max: number): PolicyRule {
+  return {
+    name: 'max_length',
+    check: (submission: Submission) => submission[field].length > max
+      ? [{
+          rule: 'max_length',
+          field,
+          message: `${FIELD_LABELS[field]} must be ${max} characters or less`,
+          max_length: max,
+          current_length: submission[field].length
+        }]
+      : []
+  };
+}
+
+// Only web links: other schemes (javascript:, data:) would end up in an href
+export function validUrlRule(): PolicyRule {
+  return {
+    name: 'valid_url',
+    check: ({ link }) => {
+      const url = parseLink(link);
+      return url && ['http:', 'https:'].includes(url.protocol)
+        ? []
+        : [{ rule: 'valid_url', field: 'link', message: 'Invalid URL format' }];
+    }
+  };
+}
+
+export function requireHttpsRule(): PolicyRule {
+  return {
+    name: 'require_https',
+    check: ({ link }) => parseLink(link)?.protocol === 'http:'
+      ? [{ rule: 'require_https', field: 'link', message: 'Links must use https://' }]
+      : []
+  };
+}
+
+// Denied domains win over allowed ones; an empty allow list allows every other host
+export function domainListRule(allowed: string[], denied: string[]): PolicyRule {
+  return {
+    name: 'domain_list',
+    check: ({ link }) => {
+      const url = parseLink(link);
+      if (!url) return [];
+
+      const host = url.hostname.toLowerCase().replace(/^www\./, '');
+      if (denied.some(domain => matchesDomain(host, domain))) {
+        return [{ rule: 'domain_list', field: 'link', message: `Links to ${host} are not accepted`, domain: host }];
+      }
+      if (allowed.length > 0 && !allowed.some(domain => matchesDomain(host, domain))) {
+        return [{ rule: 'domain_list', field: 'link', message: `Links to ${host} are not on the list of accepted sites`, domain: host }];
+      }
+      return [];
+    }
+  };
+}
+
+// The matched word is left out of the response so the list can't be probed word by word
+export function bannedWordsRule(words: string[]): PolicyRule {
+  const pattern = words.length > 0
+    ? new RegExp(`(^|[^\\p{L}\\p{N}])(${words.map(escapeRegExp).join('|')})(?=$|[^\\p{L}\\p{N}])`, 'iu')
+    : null;
+
+  return {
+    name: 'banned_words',
+    check: (submission) => {
+      if (!pattern) return [];
+      return (['summary', 'author'] as const)
+        .filter(field => pattern.test(submission[field]))
+        .map(field => ({
+          rule: 'banned_words',
+          field,
+          message: `${FIELD_LABELS[field]} contains language that isn't allowed here`
+        }));
+    }
+  };
+}
+
+// Counts by API key when there is one, otherwise by the hashed client address
+// (under any salt it had in the window). The author name is free text anyone can
+// change between posts, so it is never the key.
+export function authorQuotaRule(limit: number, windowHours: number): PolicyRule {
+  return {
+    name: 'author_quota',
+    check: async (submission, context) => {
+      const { submitter } = submission;
+      if (!submitter) return [];
+      const filter = submitter.apiKeyId
+        ? { apiKeyId: submitter.apiKeyId }
+        : { submitterIds: [submitter.id, ...(submitter.previousIds ?? [])] };
+
+      const since = new Date(Date.now() - windowHours * 60 * 60 * 1000).toISOString();
+      const count = await context.countSubmissions(filter, since);
+      return count >= limit
+        ? [{
+            rule: 'author_quota',
+            field: 'author',
+            message: `Posting limit reached: ${limit} submissions per ${windowHours} hours`,
+            limit,
+            window_hours: windowHours
+          }]
+        : [];
+    }
+  };
+}
+
+// Tags must come from the curated list (see tags.ts); the unknown ones are named so a
+// submitter can fix them
+export function tagsRule(maxTags: number): PolicyRule {
+  return {
+    name: 'tags',
+    check: async ({ tags }, context) => {
+      if (tags.length === 0) return [];
+      if (tags.length > maxTags) {
+        return [{
+          rule: 'tags',
+          field: 'tags',
+          message: `${FIELD_LABELS.tags} are limited to ${maxTags} per post`,
+          max_tags: maxTags,
+          current_tags: tags.length
+        }];
+      }
+
+      const known = new Set(await context.tagSlugs());
+      const unknown = tags.filter(tag => !known.has(tag));
+      return unknown.length > 0
+        ? [{ rule: 'tags', field: 'tags', message: `Unknown tags: ${unknown.join(', ')}`, unknown_tags: unknown }]
+        : [];
+    }
+  };
+}
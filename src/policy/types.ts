@@ -0,0 +1,50 @@
+import { SubmitterFilter, Voter } from '../storage';
+
+export type PolicyField = 'summary' | 'link' | 'author' | 'tags';
+
+// What a rule sees: the validated, trimmed submission
+export interface Submission {
+  summary: string;
+  link: string;
+  author: string;
+  // Lowercased tag slugs, in the order given
+  tags: string[];
+  // Who is posting, identified like a voter; null for submissions made outside a request
+  submitter: Voter | null;
+}
+
+// One reason a submission was rejected. Extra keys carry rule-specific detail
+// such as the limit that was exceeded.
+export interface PolicyViolation {
+  rule: string;
+  field: PolicyField;
+  message: string;
+  [key: string]: unknown;
+}
+
+// Lookups a rule may need from the board; DatabaseManager provides them
+export interface PolicyContext {
+  // Submissions matching the filter created at or after since (ISO 8601), in any status
+  countSubmissions(filter: SubmitterFilter, since: string): Promise<number>;
+  // Slugs of every tag submissions may use
+  tagSlugs(): Promise<string[]>;
+}
+
+export interface PolicyRule {
+  name: string;
+  // Resolves an empty list when the submission passes
+  check(submission: Submission, context: PolicyContext): PolicyViolation[] | Promise<PolicyViolation[]>;
+}
+
+export interface PolicyConfig {
+  // Hosts (and their subdomains) submissions may link to; empty allows any host
+  allowedDomains: string[];
+  // Hosts (and their subdomains) that are always rejected
+  deniedDomains: string[];
+  // Whole words rejected in the summary and author, case-insensitive
+  bannedWords: string[];
+  requireHttps: boolean;
+  // Submissions per API key, or per client without one, within the window; 0 disables the quota
+  authorQuota: number;
+  authorQuotaWindowHours: number;
+}
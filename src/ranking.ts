@@ -0,0 +1,117 @@
+import { NewsCursor } from './cursor';
+
+// Which votes a listing ranks by: organic (human) votes, machine votes, or both
+// blended with configurable weights. Each has its own indexed score column.
+export type ScoreBasis = 'blended' | 'human' | 'machine';
+
+export const SCORE_BASES: ScoreBasis[] = ['blended', 'human', 'machine'];
+
+export const SCORE_COLUMNS: Record<ScoreBasis, 'blended_score' | 'human_score' | 'machine_score'> = {
+  blended: 'blended_score',
+  human: 'human_score',
+  machine: 'machine_score'
+};
+
+// blended_score = human * (net human votes) + machine * (net machine votes)
+export interface ScoreWeights {
+  human: number;
+  machine: number;
+}
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = { human: 1, machine: 1 };
+
+// Time-decayed ranking for the 'top' sort, in the style of Hacker News:
+//   score = points / (age in hours + 2) ^ gravity
+// where points is the listing's score column. SQL backends compute it in the query;
+// the same formula is used here for the memory store and for SQLite builds without
+// math functions.
+
+export interface HotRankingConfig {
+  // Higher values make posts sink faster as they age
+  gravity: number;
+  // Only posts younger than this are ranked at all
+  windowHours: number;
+}
+
+// One ranking pass; `at` (ISO 8601) is the moment ages are measured from, carried in
+// cursors so every page of a listing is ranked at the same instant
+export interface HotRanking extends HotRankingConfig {
+  at: string;
+}
+
+export const DEFAULT_HOT_RANKING: HotRankingConfig = {
+  gravity: 1.8,
+  windowHours: 72
+};
+
+// Age is offset by this many hours so brand new posts don't divide by ~0
+export const AGE_OFFSET_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function envNumber(env: NodeJS.ProcessEnv, name: string, fallback: number, min: number): number {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min) {
+    throw new Error(`${name} must be a number >= ${min}`);
+  }
+  return parsed;
+}
+
+export function loadHotRankingConfig(env: NodeJS.ProcessEnv = process.env): HotRankingConfig {
+  return {
+    gravity: envNumber(env, 'HOT_RANK_GRAVITY', DEFAULT_HOT_RANKING.gravity, 0),
+    windowHours: envNumber(env, 'HOT_RANK_WINDOW_HOURS', DEFAULT_HOT_RANKING.windowHours, 1)
+  };
+}
+
+export function loadScoreWeights(env: NodeJS.ProcessEnv = process.env): ScoreWeights {
+  return {
+    human: envNumber(env, 'SCORE_HUMAN_WEIGHT', DEFAULT_SCORE_WEIGHTS.human, 0),
+    machine: envNumber(env, 'SCORE_MACHINE_WEIGHT', DEFAULT_SCORE_WEIGHTS.machine, 0)
+  };
+}
+
+export function blendedScore(humanScore: number, machineScore: number, weights: ScoreWeights): number {
+  return weights.human * humanScore + weights.machine * machineScore;
+}
+
+export function windowStart(ranking: HotRanking): string {
+  return new Date(Date.parse(ranking.at) - ranking.windowHours * HOUR_MS).toISOString();
+}
+
+// Stored timestamps are UTC, either 'YYYY-MM-DD HH:MM:SS' text or a Date from pg
+function toMillis(value: string | Date): number {
+  if (value instanceof Date) return value.getTime();
+  return Date.parse(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+export function hotScore(points: number, createdAt: string | Date, ranking: HotRanking): number {
+  // Posts newer than the ranking instant (submitted mid-pagination) count as brand new
+  const ageHours = Math.max((Date.parse(ranking.at) - toMillis(createdAt)) / HOUR_MS, 0);
+  return points / Math.pow(ageHours + AGE_OFFSET_HOURS, ranking.gravity);
+}
+
+// Hot order in JS, for stores that can't rank in SQL: highest score first, then
+// newest, then highest id, keeping only rows strictly after the cursor
+export function rankHot<T extends { id: number; created_at: string | Date; cursor_key: string }>(
+  rows: T[],
+  ranking: HotRanking,
+  points: (row: T) => number,
+  after?: NewsCursor
+): Array<T & { hot_score: number }> {
+  const compare = (a: { hot_score: number; cursor_key: string; id: number }, b: typeof a) => {
+    if (a.hot_score !== b.hot_score) return b.hot_score - a.hot_score;
+    if (a.cursor_key !== b.cursor_key) return a.cursor_key < b.cursor_key ? 1 : -1;
+    return b.id - a.id;
+  };
+  const position = after && { hot_score: after.hot_score!, cursor_key: after.created_at, id: after.id };
+
+  return rows
+    .map(row => ({ ...row, hot_score: hotScore(points(row), row.created_at, ranking) }))
+    .filter(row => !position || compare(row, position) > 0)
+    .sort(compare);
+}
@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import DatabaseManager, { RateLimitBucket } from '../database';
+import { getClientIp } from '../clientIp';
+import { ApiKeyError, getApiKeyToken, resolveRequestApiKey } from '../apiKeys';
+import { logger, metrics } from '../telemetry';
+import { RateLimitStore, createRateLimitStore } from './stores';
+
+export * from './stores';
+
+export interface RateLimitPolicy {
+  name: string;
+  // Requests allowed per window; also the burst size
+  limit: number;
+  windowMs: number;
+  // Both unset matches every request
+  methods?: string[];
+  paths?: RegExp[];
+}
+
+export interface RateLimitOptions {
+  store?: RateLimitStore;
+  // Checked in order; the first match applies, so the catch-all goes last
+  policies?: RateLimitPolicy[];
+  evictIntervalMs?: number;
+}
+
+const EVICT_INTERVAL_MS = 60000;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// RATE_LIMIT_<NAME>_MAX and RATE_LIMIT_<NAME>_WINDOW_MS override each policy; the
+// catch-all keeps the older RATE_LIMIT_MAX_REQUESTS and RATE_LIMIT_WINDOW_MS names
+export function loadRateLimitPolicies(): RateLimitPolicy[] {
+  const policy = (name: string, limit: number, windowMs: number, methods: string[], paths: RegExp[]): RateLimitPolicy => ({
+    name,
+    limit: envNumber(`RATE_LIMIT_${name.toUpperCase()}_MAX`, limit),
+    windowMs: envNumber(`RATE_LIMIT_${name.toUpperCase()}_WINDOW_MS`, windowMs),
+    methods,
+    paths
+  });
+
+  return [
+    policy('submit', 5, 10 * 60000, ['POST'], [/^\/news$/, /^\/api\/v1\/news$/]),
+    policy('vote', 30, 60000, ['POST', 'DELETE'], [/^\/vote$/, /^\/api\/v1\/news\/[^/]+\/votes$/]),
+    policy('flag', 10, 10 * 60000, ['POST'], [/^\/flag$/, /^\/api\/v1\/news\/[^/]+\/flags$/]),
+    policy('comment', 10, 10 * 60000, ['POST'], [/^\/news\/[^/]+\/comments$/, /^\/api\/v1\/news\/[^/]+\/comments$/]),
+    policy('mcp', 60, 60000, ['POST'], [/^\/mcp$/]),
+    {
+      name: 'default',
+      limit: envNumber('RATE_LIMIT_MAX_REQUESTS', 100),
+      windowMs: envNumber('RATE_LIMIT_WINDOW_MS', 60000)
+    }
+  ];
+}
+
+function matchPolicy(policies: RateLimitPolicy[], req: Request): RateLimitPolicy | undefined {
+  return policies.find(policy =>
+    (!policy.methods || policy.methods.includes(req.method)) &&
+    (!policy.paths || policy.paths.some(pattern => pattern.test(req.path)))
+  );
+}
+
+// Token bucket: holds up to `limit` tokens and refills at limit/windowMs per millisecond.
+// The decision is reported through `allowed` because a denied request still stores the refill.
+function takeToken(policy: RateLimitPolicy, now: number, decision: { allowed: boolean }) {
+  const rate = policy.limit / policy.windowMs;
+
+  return (current: RateLimitBucket | null): RateLimitBucket => {
+    const available = current
+      ? Math.min(policy.limit, current.tokens + Math.max(0, now - current.updated_at) * rate)
+      : policy.limit;
+    decision.allowed = available >= 1;
+    const tokens = decision.allowed ? available - 1 : available;
+
+    return {
+      tokens,
+      updated_at: now,
+      expires_at: now + Math.ceil((policy.limit - tokens) / rate)
+    };
+  };
+}
+
+// Requests with a valid API key are limited per key, everything else per client address.
+// A bad key falls back to the address; the route itself answers 401. The lookup is
+// remembered on the request, so the route's own authentication doesn't repeat it.
+async function resolveIdentity(req: Request, db: DatabaseManager): Promise<string> {
+  if (getApiKeyToken(req)) {
+    try {
+      const apiKey = await resolveRequestApiKey(req, db);
+      if (apiKey) {
+        return `key:${apiKey.key_id}`;
+      }
+    } catch (error) {
+      if (!(error instanceof ApiKeyError)) throw error;
+    }
+  }
+  return `ip:${getClientIp(req)}`;
+}
+
+// Sets RateLimit-Limit/-Remaining/-Reset/-Policy on every response and answers 429 with
+// Retry-After once a bucket is empty. Store failures let the request through.
+export function createRateLimiter(db: DatabaseManager, options: RateLimitOptions = {}): RequestHandler {
+  const store = options.store || createRateLimitStore(db);
+  const policies = options.policies || loadRateLimitPolicies();
+
+  const evictTimer = setInterval(() => {
+    store.evict(Date.now()).catch(error => logger.warn('Rate limit eviction failed', { error: (error as Error).message }));
+  }, options.evictIntervalMs ?? EVICT_INTERVAL_MS);
+  evictTimer.unref();
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const policy = matchPolicy(policies, req);
+    if (!policy) {
+      return next();
+    }
+
+    const now = Date.now();
+    const decision = { allowed: true };
+    let identity: string;
+    let bucket: RateLimitBucket;
+    try {
+      identity = await resolveIdentity(req, db);
+      bucket = await store.update(`${policy.name}:${identity}`, takeToken(policy, now, decision));
+    } catch (error) {
+      logger.warn('Rate limit check failed, allowing request', { policy: policy.name, error: (error as Error).message });
+      return next();
+    }
+
+    const rate = policy.limit / policy.windowMs;
+    res.set({
+      'RateLimit-Limit': String(policy.limit),
+      'RateLimit-Remaining': String(Math.floor(bucket.tokens)),
+      'RateLimit-Reset': String(Math.ceil((bucket.expires_at - now) / 1000)),
+      'RateLimit-Policy': `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`
+    });
+
+    if (decision.allowed) {
+      return next();
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((1 - bucket.tokens) / rate / 1000));
+    // A fixed label: per-address values would give the metric unbounded cardinality
+    metrics.recordRateLimitHit(policy.name, identity.startsWith('key:') ? 'api_key' : 'ip');
+    logger.warn('Rate limit exceeded', { policy: policy.name, identity, path: req.path, limit: policy.limit });
+
+    res.set('Retry-After', String(retryAfter)).status(429).json({
+      error: 'Too many requests',
+      retryAfter
+    });
+  };
+}
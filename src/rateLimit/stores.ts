@@ -0,0 +1,56 @@
+import DatabaseManager, { RateLimitBucket } from '../database';
+
+// Where token buckets live. The memory store is per process; the database store
+// lets several instances share limits.
+export interface RateLimitStore {
+  // See NewsStore.updateRateLimitBucket: update() must be pure and the last result is stored
+  update(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket>;
+  // Drops buckets that are full again by now
+  evict(now: number): Promise<number>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, RateLimitBucket>();
+
+  async update(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket> {
+    const bucket = update(this.buckets.get(key) || null);
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  async evict(now: number): Promise<number> {
+    let evicted = 0;
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.expires_at <= now) {
+        this.buckets.delete(key);
+        evicted++;
+      }
+    });
+    return evicted;
+  }
+}
+
+// Buckets in the rate_limit_buckets table of whichever backend DatabaseManager uses
+export class DatabaseRateLimitStore implements RateLimitStore {
+  constructor(private db: DatabaseManager) {}
+
+  update(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket> {
+    return this.db.updateRateLimitBucket(key, update);
+  }
+
+  evict(now: number): Promise<number> {
+    return this.db.evictRateLimitBuckets(now);
+  }
+}
+
+// RATE_LIMIT_STORE=database shares limits through the database; the default keeps them in memory
+export function createRateLimitStore(db: DatabaseManager, type: string = process.env.RATE_LIMIT_STORE || 'memory'): RateLimitStore {
+  switch (type) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    case 'database':
+      return new DatabaseRateLimitStore(db);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${type}' (expected memory or database)`);
+  }
+}
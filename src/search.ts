@@ -0,0 +1,105 @@
+// Full-text search over published items: summaries, authors and link domains. SQLite
+// indexes them with FTS5 and PostgreSQL with a tsvector table (migration 010); triggers
+// on news_items keep both in sync.
+
+export interface NewsSearch {
+  // Lowercased words; each must match the start of a word in the summary, author or domain
+  terms: string[];
+  // site: filters; an item matches when its domain is one of these or a subdomain
+  sites: string[];
+  // author: filters; exact, case-insensitive
+  authors: string[];
+}
+
+// Keeps MATCH expressions and tsqueries small
+const MAX_TERMS = 10;
+const MAX_QUERY_LENGTH = 200;
+
+export class SearchQueryError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+// Words the way both indexes tokenize them: runs of letters and digits
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+// The host of a site: value, without scheme, path or a leading www.
+function normalizeSite(value: string): string {
+  const host = value.toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/^www\./, '');
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*(:\d+)?$/.test(host)) {
+    throw new SearchQueryError(`site:${value} is not a domain`);
+  }
+  return host;
+}
+
+// Free text plus site:example.org and author:name (author:"Two Words") filters
+export function parseSearchQuery(q: string): NewsSearch {
+  if (q.length > MAX_QUERY_LENGTH) {
+    throw new SearchQueryError(`Search queries are limited to ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const search: NewsSearch = { terms: [], sites: [], authors: [] };
+  const tokens = /\b(site|author):(?:"([^"]*)"|(\S+))|(\S+)/gi;
+
+  for (const [, filter, quoted, bare, text] of q.matchAll(tokens)) {
+    const value = (quoted ?? bare ?? '').replace(/^"|"$/g, '').trim();
+    if (filter?.toLowerCase() === 'site' && value) {
+      search.sites.push(normalizeSite(value));
+    } else if (filter?.toLowerCase() === 'author' && value) {
+      search.authors.push(value.toLowerCase());
+    } else if (text) {
+      search.terms.push(...words(text));
+    }
+  }
+
+  search.terms = Array.from(new Set(search.terms));
+  if (search.terms.length > MAX_TERMS) {
+    throw new SearchQueryError(`Search for at most ${MAX_TERMS} words at a time`);
+  }
+  if (search.terms.length === 0 && search.sites.length === 0 && search.authors.length === 0) {
+    throw new SearchQueryError('Enter words to search for, site:example.org or author:name');
+  }
+  return search;
+}
+
+// The domain search indexes and site: filters use: the host part of the canonical URL
+// (see canonicalizeLink), so without scheme or a leading www.
+export function linkDomain(canonicalUrl: string | null | undefined): string {
+  return (canonicalUrl || '').split(/[/?]/)[0];
+}
+
+export function matchesSite(domain: string, sites: string[]): boolean {
+  return sites.some(site => domain === site || domain.endsWith(`.${site}`));
+}
+
+// Whether every term starts a word of text; the memory store's stand-in for the indexes
+export function matchesTerms(text: string, terms: string[]): boolean {
+  const textWords = words(text);
+  return terms.every(term => textWords.some(word => word.startsWith(term)));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// HTML-escapes text and wraps each word that a term matched in <mark>
+export function highlightTerms(text: string, terms: string[], escape: (unsafe: string) => string): string {
+  if (terms.length === 0) {
+    return escape(text);
+  }
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  let html = '';
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    html += `${escape(text.slice(last, match.index))}<mark>${escape(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+  return html + escape(text.slice(last));
+}
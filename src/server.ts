@@ -1,37 +1,118 @@
 import express, { Request, Response } from 'express';
 import path from 'path';
-import DatabaseManager from './database';
+import crypto from 'crypto';
+import DatabaseManager, { ApiKey, Voter } from './database';
 import TelemetrySystem, { 
   logger, 
   metrics, 
   tracing,
-  requestIdMiddleware,
-  loggingMiddleware,
-  tracingMiddleware,
-  metricsMiddleware,
+  telemetryConfig,
+  requestTelemetryMiddleware,
   errorHandlingMiddleware,
-  performanceMiddleware,
-  securityMiddleware,
   auditMiddleware,
-  rateLimitMiddleware,
-  healthCheckMiddleware
+  healthCheckMiddleware,
+  registerHealthCheck
 } from './telemetry';
 import { debugMiddleware } from './telemetry/debugger';
+import { validateNewsSubmission, validateFlagSubmission, validateCommentSubmission } from './validation';
+import { getClientIp } from './clientIp';
+import { humanVoter, startVoterIdRetention } from './voterIdentity';
+import { ApiKeyError, resolveRequestApiKey, hasScope, machineVoter } from './apiKeys';
+import { InvalidCursorError } from './cursor';
+import { SCORE_BASES, ScoreBasis } from './ranking';
+import { NewsSearch, SearchQueryError, parseSearchQuery } from './search';
+import { newsCategory } from './tags';
+import { DuplicateLinkError, describeDuplicate } from './links';
+import { PolicyViolationError } from './policy';
+import { CommentThreadError, toPublicComment } from './comments';
+import { toPublicNewsItem } from './news';
+import { createRateLimiter } from './rateLimit';
+import {
+  generateNewsHtml,
+  generateLoadMoreHtml,
+  generateScoreBasisNavHtml,
+  generateSearchMoreHtml,
+  generateTagNavHtml,
+  generateTagFieldHtml,
+  listingQuery,
+  escapeHtml,
+  generateVoteDisplayHtml,
+  generateDuplicateNoticeHtml,
+  generatePendingNoticeHtml,
+  generateFlagMenuHtml,
+  generateFormErrorsHtml
+} from './views/news';
+import { generateCommentHtml, generateCommentsHtml, generateDiscussionHtml, commentErrorsTarget } from './views/comments';
+import { renderFeed, parseDbTimestamp, FeedFormat } from './views/feeds';
+import { createApiV1Router, getApiV1Docs, API_V1_BASE_PATH } from './api/v1';
+import { createMcpServer } from './mcp/server';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 
 TelemetrySystem.initialize();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+// Absolute links in feeds use this, never the request's Host header, which any client can set
+const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${PORT}`).replace(/\/+$/, '');
 const db = new DatabaseManager();
+const FEED_PAGE_SIZE = 30;
 
+const SEARCH_PAGE_SIZE = 30;
+const COMMENT_PAGE_SIZE = 50;
+
+function offsetParam(value: unknown): number {
+  const offset = parseInt(value as string, 10);
+  return Number.isFinite(offset) && offset > 0 ? offset : 0;
+}
+
+// One page of results for q, or the reason q can't be searched, with a load-more link
+async function generateSearchResultsHtml(q: string, offset: number): Promise<string> {
+  let search: NewsSearch;
+  try {
+    search = parseSearchQuery(q);
+  } catch (error) {
+    if (error instanceof SearchQueryError) {
+      return `<div class="no-news">${escapeHtml(error.message)}</div>`;
+    }
+    throw error;
+  }
+
+  // Fetch one extra row to learn whether another page exists
+  const items = await db.searchNewsItems(search, { limit: SEARCH_PAGE_SIZE + 1, offset });
+  const nextOffset = items.length > SEARCH_PAGE_SIZE ? offset + SEARCH_PAGE_SIZE : null;
+  // Later pages only append items, so an empty page shows nothing
+  const newsHtml = offset > 0 && items.length === 0
+    ? ''
+    : await generateNewsHtml(items.slice(0, SEARCH_PAGE_SIZE), db, { highlight: search.terms, emptyMessage: 'Nothing matches that search.' });
+  return newsHtml + generateSearchMoreHtml(q, nextOffset);
+}
+
+// One page of a reply list (top-level comments when parentId is null), with a control
+// for the next page
+async function generateCommentPageHtml(newsId: number, parentId: number | null, offset: number): Promise<string> {
+  const comments = await db.getComments(newsId, parentId, { limit: COMMENT_PAGE_SIZE + 1, offset });
+  const nextOffset = comments.length > COMMENT_PAGE_SIZE ? offset + COMMENT_PAGE_SIZE : null;
+  return generateCommentsHtml(comments.slice(0, COMMENT_PAGE_SIZE), newsId, parentId, nextOffset);
+}
+
+// ?by= on the HTML pages; anything unknown shows the default blended ranking
+function scoreBasisParam(value: unknown): ScoreBasis {
+  return SCORE_BASES.includes(value as ScoreBasis) ? value as ScoreBasis : 'blended';
+}
+
+// ?tag= on the HTML pages; a tag that doesn't exist just lists nothing
+function tagParam(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+registerHealthCheck('database', () => db.healthCheck());
+
+// Telemetry middleware and endpoints are only installed when TelemetryConfig enables them
 app.use(healthCheckMiddleware);
-app.use(requestIdMiddleware);
-app.use(loggingMiddleware);
-app.use(tracingMiddleware);
-app.use(metricsMiddleware);
-app.use(performanceMiddleware);
-app.use(securityMiddleware);
-app.use(rateLimitMiddleware(60000, 100));
+app.use(requestTelemetryMiddleware());
+if (telemetryConfig.isSecurityFeatureEnabled('rateLimiting')) {
+  app.use(createRateLimiter(db));
+}
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -45,116 +126,32 @@ app.use('/node_modules', express.static(path.join(__dirname, '../node_modules'),
   }
 }));
 
-app.use(auditMiddleware);
-app.use(debugMiddleware);
-
-function getClientIp(req: Request): string {
-  return (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 
-         req.connection.remoteAddress || 
-         req.socket.remoteAddress || 
-         '127.0.0.1';
-}
-
-function isValidUrl(string: string): boolean {
-  try {
-    new URL(string);
-    return true;
-  } catch (_) {
-    return false;
-  }
-}
-
-async function generateNewsHtml(newsItems: any[], db: any): Promise<string> {
-  if (newsItems.length === 0) {
-    return '<div class="no-news">No news items yet. Be the first to post!</div>';
-  }
-
-  const newsItemsWithCounts = await Promise.all(newsItems.map(async item => {
-    let domain = '';
-    try {
-      domain = new URL(item.link).hostname.replace('www.', '');
-    } catch (e) {
-      domain = 'link';
-    }
-    
-    // Create date only timestamp
-    const timestamp = new Date(item.created_at).toLocaleDateString('en-US', { 
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric'
-    });
-
-    // Get vote counts
-    const voteCounts = await db.getVoteCounts(item.id);
-    
-    return `
-    <div class="news-item" id="news-${item.id}" data-timestamp="${timestamp}">
-      <div class="news-content">
-        <div class="news-meta">
-          <span class="timestamp">${timestamp}</span>
-          <span class="author-signature">by ${escapeHtml(item.author)}</span>
-        </div>
-        <p class="news-summary">${escapeHtml(item.summary)}</p>
-        <a href="${escapeHtml(item.link)}" target="_blank" rel="noopener" class="news-link">
-          → ${domain} ←
-        </a>
-      </div>
-      <div class="news-actions">
-        <div class="vote-display">
-          <div class="vote-group human-votes">
-            <span class="vote-label">organic</span>
-            <span class="vote-counts-inline">
-              <button 
-                class="vote-btn-inline upvote" 
-                onclick="createFirework(event, this)"
-                hx-post="/vote" 
-                hx-vals='{"newsId": ${item.id}, "voteType": "up"}'
-                hx-target="#news-${item.id} .vote-display"
-                hx-swap="innerHTML">
-                ▲
-              </button>${voteCounts.human_upvotes} 
-              <button 
-                class="vote-btn-inline downvote" 
-                onclick="createRedFirework(event, this)"
-                hx-post="/vote" 
-                hx-vals='{"newsId": ${item.id}, "voteType": "down"}'
-                hx-target="#news-${item.id} .vote-display"
-                hx-swap="innerHTML">
-                ▼
-              </button>${voteCounts.human_downvotes}
-            </span>
-          </div>
-          <div class="vote-group machine-votes">
-            <span class="vote-label">machine <span class="machine-info-icon" title="Upvotes are done by MCP - get your AI to see all articles and upvote the ones it thinks you like">i</span></span>
-            <span class="vote-counts-inline">
-              <span class="vote-arrow-static">▲</span>${voteCounts.machine_upvotes} 
-              <span class="vote-arrow-static">▼</span>${voteCounts.machine_downvotes}
-            </span>
-          </div>
-        </div>
-      </div>
-    </div>
-  `;
-  }));
-
-  return newsItemsWithCounts.join('');
+if (telemetryConfig.isSecurityFeatureEnabled('auditLogging')) {
+  app.use(auditMiddleware);
 }
-
-function escapeHtml(unsafe: string): string {
-  return unsafe
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#039;");
+if (telemetryConfig.isEndpointEnabled('debug')) {
+  app.use(debugMiddleware);
 }
 
-app.get('/', async (req: Request, res: Response) => {
+// The search page is the board with search results in place of a tab's listing
+app.get(['/', '/search'], async (req: Request, res: Response) => {
   return tracing.traceAsync('handle_homepage', async () => {
     try {
+    const searchPage = req.path === '/search';
+    const q = typeof req.query.q === 'string' ? req.query.q : '';
     const sort = req.query.sort as 'top' | 'new' | 'classic' || 'top';
-    const newsItems = await db.getNewsItemsBySort(sort);
-    const newsHtml = await generateNewsHtml(newsItems, db);
+    const activeTab = searchPage ? null : sort;
+    const by = scoreBasisParam(req.query.by);
+    const tags = await db.listTags();
+    const tag = searchPage ? null : tagParam(req.query.tag);
+    let newsHtml: string;
+    if (searchPage) {
+      newsHtml = await generateSearchResultsHtml(q, offsetParam(req.query.offset));
+    } else {
+      const cursor = req.query.cursor as string | undefined;
+      const page = await db.getNewsPageBySort(sort, { limit: FEED_PAGE_SIZE, cursor, by, tag: tag ?? undefined });
+      newsHtml = await generateNewsHtml(page.items, db) + generateLoadMoreHtml(sort, by, page.nextCursor, tag);
+    }
   
     const html = `
 <!DOCTYPE html>
@@ -164,6 +161,9 @@ app.get('/', async (req: Request, res: Response) => {
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>mecha_board</title>
     <link rel="stylesheet" href="/style.css">
+    <link rel="alternate" type="application/rss+xml" title="mecha_board" href="/feed.rss?${listingQuery(sort, by, tag)}">
+    <link rel="alternate" type="application/atom+xml" title="mecha_board" href="/feed.atom?${listingQuery(sort, by, tag)}">
+    <link rel="alternate" type="application/feed+json" title="mecha_board" href="/feed.json?${listingQuery(sort, by, tag)}">
     <script src="https://unpkg.com/htmx.org@1.9.10"></script>
 </head>
 <body>
@@ -174,9 +174,10 @@ app.get('/', async (req: Request, res: Response) => {
         </header>
 
         <section class="add-news">
-            <h2 class="collapsible-header" onclick="toggleCollapse()">Share - Human Input <span class="info-icon" title="This site is designed for non-human posting via our MCP server: [MCP server coming soon]">i</span><span class="collapse-arrow">▶</span></h2>
+            <h2 class="collapsible-header" onclick="toggleCollapse()">Share - Human Input <span class="info-icon" title="This site is designed for non-human posting via our MCP server at /mcp">i</span><span class="collapse-arrow">▶</span></h2>
             <div class="collapsible-content" style="display: none;">
-            <form hx-post="/news" hx-target="#news-list" hx-swap="afterbegin" hx-on="htmx:afterRequest: this.reset()">
+            <form id="submit-form" hx-post="/news" hx-target="#news-list" hx-swap="afterbegin" hx-on="htmx:afterRequest: if (event.detail.successful) this.reset()">
+                <div id="submit-errors"></div>
                 <div class="form-group">
                     <label for="summary">Summary (max 200 chars):</label>
                     <input type="text" id="summary" name="summary" maxlength="200" required 
@@ -191,7 +192,7 @@ app.get('/', async (req: Request, res: Response) => {
                     <label for="author">Author/Signature (max 50 chars):</label>
                     <input type="text" id="author" name="author" maxlength="50" 
                            placeholder="e.g., Human User, GPT-4, Claude-3.5">
-                </div>
+                </div>${generateTagFieldHtml(tags)}
                 <button type="submit">Submit</button>
             </form>
             </div>
@@ -199,180 +200,111 @@ app.get('/', async (req: Request, res: Response) => {
 
         <section class="news-section">
             <div class="tab-navigation">
-                <a href="/?sort=top" class="tab-btn ${sort === 'top' ? 'active' : ''}">Top</a>
-                <a href="/?sort=new" class="tab-btn ${sort === 'new' ? 'active' : ''}">New</a>
-                <a href="/?sort=classic" class="tab-btn ${sort === 'classic' ? 'active' : ''}">Classic</a>
+                <a href="/?${listingQuery('top', 'blended', tag)}" class="tab-btn ${activeTab === 'top' ? 'active' : ''}">Top</a>
+                <a href="/?${listingQuery('new', 'blended', tag)}" class="tab-btn ${activeTab === 'new' ? 'active' : ''}">New</a>
+                <a href="/?${listingQuery('classic', 'blended', tag)}" class="tab-btn ${activeTab === 'classic' ? 'active' : ''}">Classic</a>
+                <form class="search-form" action="/search" method="get" role="search">
+                    <input type="search" name="q" value="${escapeHtml(q)}" placeholder="search, site:arxiv.org, author:name" aria-label="Search posts">
+                </form>
             </div>
+            ${searchPage ? '' : generateTagNavHtml(sort, by, tags, tag) + generateScoreBasisNavHtml(sort, by, tag)}
             <h2>Latest News</h2>
             <div id="news-list" class="news-list">
                 ${newsHtml}
             </div>
         </section>
     </div>
-    <script>
-    function toggleCollapse() {
-        const content = document.querySelector('.collapsible-content');
-        const arrow = document.querySelector('.collapse-arrow');
-        
-        if (content.style.display === 'none') {
-            content.style.display = 'block';
-            arrow.textContent = '▼';
-        } else {
-            content.style.display = 'none';
-            arrow.textContent = '▶';
-        }
-    }
-    
-    function createFirework(event, button) {
-        const rect = button.getBoundingClientRect();
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
-        
-        // Create main firework container
-        const firework = document.createElement('div');
-        firework.className = 'firework';
-        firework.style.left = centerX + 'px';
-        firework.style.top = centerY + 'px';
-        document.body.appendChild(firework);
-        
-        // Create particles
-        const particleCount = 12;
-        for (let i = 0; i < particleCount; i++) {
-            const particle = document.createElement('div');
-            particle.className = 'firework-particle';
-            
-            const angle = (i / particleCount) * Math.PI * 2;
-            const distance = 50 + Math.random() * 30;
-            const x = Math.cos(angle) * distance;
-            const y = Math.sin(angle) * distance;
-            
-            particle.style.setProperty('--x', x + 'px');
-            particle.style.setProperty('--y', y + 'px');
-            
-            firework.appendChild(particle);
-        }
-        
-        // No sparkles - just explosion
-        
-        // Clean up
-        setTimeout(() => firework.remove(), 800);
-    }
-    
-    function createRedFirework(event, button) {
-        const rect = button.getBoundingClientRect();
-        const centerX = rect.left + rect.width / 2;
-        const centerY = rect.top + rect.height / 2;
-        
-        // Create main firework container
-        const firework = document.createElement('div');
-        firework.className = 'firework';
-        firework.style.left = centerX + 'px';
-        firework.style.top = centerY + 'px';
-        document.body.appendChild(firework);
-        
-        // Create particles - only bottom half
-        const particleCount = 6;
-        for (let i = 0; i < particleCount; i++) {
-            const particle = document.createElement('div');
-            particle.className = 'red-firework-particle';
-            
-            // Only angles from 0 to π (bottom half)
-            const angle = (i / particleCount) * Math.PI;
-            const distance = 50 + Math.random() * 30;
-            const x = Math.cos(angle) * distance;
-            const y = Math.sin(angle) * distance;
-            
-            particle.style.setProperty('--x', x + 'px');
-            particle.style.setProperty('--y', y + 'px');
-            
-            firework.appendChild(particle);
-        }
-        
-        // Clean up
-        setTimeout(() => firework.remove(), 800);
-    }
-
-    </script>
+    <script src="/board.js"></script>
 </body>
 </html>`;
 
       res.send(html);
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).send('<div class="no-news">Invalid page cursor</div>');
+      }
       logger.error('Error loading homepage', error);
       throw error;
     }
   });
 });
 
+// HTMX only swaps error responses the page opts into; see the htmx:beforeSwap listener
+function sendFormErrors(res: Response, errors: Array<{ field?: string; message: string }>) {
+  res.status(400)
+    .set('HX-Retarget', '#submit-errors')
+    .set('HX-Reswap', 'innerHTML')
+    .send(generateFormErrorsHtml(errors));
+}
+
 app.post('/news', async (req: Request, res: Response) => {
   return tracing.traceAsync('handle_create_news', async () => {
-    const { summary, link, author } = req.body;
+    const { summary, link, author, tags } = req.body;
     
-    logger.info('Creating news item', { summary, link, author });
+    logger.info('Creating news item', { summary, link, author, tags });
 
-  // Enhanced validation for external API usage
-  if (!summary || !link) {
-    return res.status(400).json({ 
-      error: 'Summary and link are required',
-      usage: 'POST /news with JSON body: {"summary": "text", "link": "https://...", "author": "optional_name"}'
-    });
-  }
-
-  if (typeof summary !== 'string' || typeof link !== 'string') {
-    return res.status(400).json({ error: 'Summary and link must be strings' });
-  }
-
-  if (author && typeof author !== 'string') {
-    return res.status(400).json({ error: 'Author must be a string' });
-  }
+    // Return JSON for API clients, HTML for HTMX requests
+    const isHtmxRequest = req.headers['hx-request'] === 'true';
 
-  if (summary.length > 200) {
-    return res.status(400).json({ 
-      error: 'Summary must be 200 characters or less',
-      current_length: summary.length
-    });
+  const validation = validateNewsSubmission({ summary, link, author, tags });
+  if (!validation.valid) {
+    return isHtmxRequest
+      ? sendFormErrors(res, [{ message: validation.error.error }])
+      : res.status(400).json(validation.error);
   }
 
-  if (author && author.length > 50) {
-    return res.status(400).json({ 
-      error: 'Author must be 50 characters or less',
-      current_length: author.length
-    });
+  // Agents post with a key, so their posts are attributed to it and count against its quota;
+  // people are counted by their hashed address, like their votes
+  let apiKey: ApiKey | null;
+  try {
+    apiKey = await resolveRequestApiKey(req, db);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return res.status(401).json({ error: error.message });
+    }
+    throw error;
   }
 
-  if (!isValidUrl(link)) {
-    return res.status(400).json({ error: 'Invalid URL format' });
+  if (apiKey && !hasScope(apiKey, 'submit')) {
+    return res.status(403).json({ error: "API key lacks the 'submit' scope" });
   }
+  const submitter: Voter = apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req));
 
     try {
-      const authorName = author ? author.trim() : 'Anonymous';
-      const newsId = await db.addNewsItem(summary.trim(), link.trim(), authorName);
+      const { summary: cleanSummary, link: cleanLink, author: authorName, tags: tagSlugs } = validation.value;
+      const newsId = await db.addNewsItem(cleanSummary, cleanLink, authorName, submitter, tagSlugs);
       
-      metrics.recordNewsItem('api', authorName === 'Anonymous' ? 'anonymous' : 'named');
-      logger.info('News item created', { newsId, summary, link, author: authorName });
-    const newsItem = { 
-      id: newsId, 
-      summary: summary.trim(), 
-      link: link.trim(), 
-      author: authorName,
-      vote_score: 0, 
-      created_at: new Date().toISOString() 
-    };
-    
-    // Return JSON for API clients, HTML for HTMX requests
-    const isHtmxRequest = req.headers['hx-request'] === 'true';
+      metrics.recordNewsItem('api', authorName === 'Anonymous' ? 'anonymous' : 'named', newsCategory(tagSlugs));
+      logger.info('News item created', { newsId, summary, link, author: authorName, keyId: apiKey?.key_id });
+    const [newsItem] = await db.attachItemDetails([(await db.getNewsItemById(newsId))!]);
+    const isPending = newsItem.status === 'pending';
     
     if (isHtmxRequest) {
-      const newsHtml = await generateNewsHtml([newsItem], db);
-      res.send(newsHtml);
+      res.send(isPending ? generatePendingNoticeHtml() : await generateNewsHtml([newsItem], db));
     } else {
       res.status(201).json({ 
         success: true,
-        data: newsItem,
-        message: 'News item created successfully'
+        data: toPublicNewsItem(newsItem),
+        message: isPending ? 'News item submitted for review' : 'News item created successfully'
       });
       }
     } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        logger.info('Submission rejected by content policy', { link, rules: error.violations.map(violation => violation.rule) });
+
+        return isHtmxRequest
+          ? sendFormErrors(res, error.violations)
+          : res.status(400).json({ error: error.message, violations: error.violations });
+      }
+      if (error instanceof DuplicateLinkError) {
+        const existing = describeDuplicate(error.existing);
+        logger.info('Duplicate link rejected', { link, existingId: error.existing.id });
+
+        // The page lets HTMX swap 409 responses so the notice shows up in the feed
+        return isHtmxRequest
+          ? res.status(409).send(generateDuplicateNoticeHtml(existing))
+          : res.status(409).json({ error: error.message, ...(existing ? { existing } : {}) });
+      }
       logger.error('Error adding news item', error);
       throw error;
     }
@@ -382,62 +314,50 @@ app.post('/news', async (req: Request, res: Response) => {
 app.post('/vote', async (req: Request, res: Response) => {
   return tracing.traceAsync('handle_vote', async () => {
     const { newsId, voteType, source } = req.body;
-  const voterIp = getClientIp(req);
-  
-  // Detect vote source - default to human for browser requests
-  const voteSource = source === 'machine' ? 'machine' : 'human';
 
   if (!newsId || !voteType || !['up', 'down'].includes(voteType)) {
     return res.status(400).json({ error: 'Invalid vote data' });
   }
 
+  // The vote source comes from the credential, never from the request body
+  let apiKey: ApiKey | null;
+  try {
+    apiKey = await resolveRequestApiKey(req, db);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return res.status(401).json({ error: error.message });
+    }
+    throw error;
+  }
+
+  if (apiKey && !hasScope(apiKey, 'vote')) {
+    return res.status(403).json({ error: "API key lacks the 'vote' scope" });
+  }
+  if (!apiKey && source === 'machine') {
+    return res.status(401).json({ error: "Machine votes require an API key with the 'vote' scope" });
+  }
+
+  const voter: Voter = apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req));
+  const voteSource = voter.source;
+
     try {
-      const success = await db.vote(parseInt(newsId), voteType, voterIp, voteSource);
-      
-      if (success) {
-        metrics.recordVote(voteType, voteSource);
-        logger.info('Vote recorded', { newsId, voteType, voteSource, voterIp });
+      const id = parseInt(newsId);
+      // Clicking the arrow of the current vote clears it
+      const change = await db.vote(id, voteType, voter);
+
+      if (!change) {
+        return res.status(404).json({ error: 'News item not found' });
       }
-    if (success) {
-      const voteCounts = await db.getVoteCounts(parseInt(newsId));
-      const displayHtml = `
-        <div class="vote-display">
-          <div class="vote-group human-votes">
-            <span class="vote-label">organic</span>
-            <span class="vote-counts-inline">
-              <button 
-                class="vote-btn-inline upvote" 
-                onclick="createFirework(event, this)"
-                hx-post="/vote" 
-                hx-vals='{"newsId": ${newsId}, "voteType": "up"}'
-                hx-target="#news-${newsId} .vote-display"
-                hx-swap="innerHTML">
-                ▲
-              </button>${voteCounts.human_upvotes} 
-              <button 
-                class="vote-btn-inline downvote" 
-                onclick="createRedFirework(event, this)"
-                hx-post="/vote" 
-                hx-vals='{"newsId": ${newsId}, "voteType": "down"}'
-                hx-target="#news-${newsId} .vote-display"
-                hx-swap="innerHTML">
-                ▼
-              </button>${voteCounts.human_downvotes}
-            </span>
-          </div>
-          <div class="vote-group machine-votes">
-            <span class="vote-label">machine <span class="machine-info-icon" title="Upvotes are done by MCP - get your AI to see all articles and upvote the ones it thinks you like">i</span></span>
-            <span class="vote-counts-inline">
-              <span class="vote-arrow-static">▲</span>${voteCounts.machine_upvotes} 
-              <span class="vote-arrow-static">▼</span>${voteCounts.machine_downvotes}
-            </span>
-          </div>
-        </div>
-      `;
-      res.send(displayHtml);
-    } else {
-      res.status(409).json({ error: 'Vote unchanged' });
+
+      if (change.current) {
+        metrics.recordVote(change.current, voteSource);
+        logger.info('Vote recorded', { newsId, voteType, voteSource, voterId: voter.id });
+      } else {
+        logger.info('Vote removed', { newsId, voteType: change.previous, voteSource, voterId: voter.id });
       }
+
+      const voteCounts = await db.getVoteCounts(id);
+      res.send(generateVoteDisplayHtml(id, voteCounts));
     } catch (error) {
       logger.error('Error voting', error);
       throw error;
@@ -445,18 +365,306 @@ app.post('/vote', async (req: Request, res: Response) => {
   });
 });
 
+app.post('/flag', async (req: Request, res: Response) => {
+  return tracing.traceAsync('handle_flag', async () => {
+    const id = parseInt(req.body.newsId);
+    const validation = validateFlagSubmission(req.body);
+    if (!id || !validation.valid) {
+      return res.status(400).json(validation.valid ? { error: 'Invalid news item id' } : validation.error);
+    }
+
+    // Reporters are identified the same way voters are
+    let apiKey: ApiKey | null;
+    try {
+      apiKey = await resolveRequestApiKey(req, db);
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        return res.status(401).json({ error: error.message });
+      }
+      throw error;
+    }
+    const reporterId = (apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req))).id;
+
+    const { reason, details } = validation.value;
+    try {
+      const created = await db.flagNewsItem(id, reason, details, reporterId);
+      if (created === null) {
+        return res.status(404).json({ error: 'News item not found' });
+      }
+      if (created) {
+        logger.info('News item flagged', { newsId: id, reason });
+      }
+
+      res.send(generateFlagMenuHtml(id, true));
+    } catch (error) {
+      logger.error('Error flagging news item', error);
+      res.status(500).json({ error: 'Error flagging news item' });
+    }
+  });
+});
+
+// An item's page: the item itself and its discussion
+app.get('/news/:id(\\d+)', async (req: Request, res: Response) => {
+  return tracing.traceAsync('handle_news_page', async () => {
+    try {
+      const newsId = parseInt(req.params.id, 10);
+      const item = await db.getNewsItemById(newsId);
+      if (!item || item.status !== 'published') {
+        return res.status(404).send('<div class="no-news">News item not found</div>');
+      }
+
+      const [newsItem] = await db.attachItemDetails([item]);
+      const html = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(newsItem.summary)} | mecha_board</title>
+    <link rel="stylesheet" href="/style.css">
+    <script src="https://unpkg.com/htmx.org@1.9.10"></script>
+</head>
+<body>
+    <div class="container">
+        <header>
+            <h1><a href="/" class="home-link">mecha_board</a></h1>
+            <p class="subtitle">Latest developments in autonomous AI systems</p>
+        </header>
+
+        <section class="news-section">
+            <div class="news-list">
+                ${await generateNewsHtml([newsItem], db)}
+            </div>
+        </section>
+${generateDiscussionHtml(newsId, await generateCommentPageHtml(newsId, null, 0))}
+    </div>
+    <script src="/board.js"></script>
+</body>
+</html>`;
+
+      res.send(html);
+    } catch (error) {
+      logger.error('Error loading news item page', error);
+      res.status(500).send('<div class="no-news">Error loading news item</div>');
+    }
+  });
+});
+
+// Replies to ?parent=, or the top-level comments without it (HTMX endpoint)
+app.get('/news/:id(\\d+)/comments', async (req: Request, res: Response) => {
+  try {
+    const newsId = parseInt(req.params.id, 10);
+    const parentId = offsetParam(req.query.parent) || null;
+    res.send(await generateCommentPageHtml(newsId, parentId, offsetParam(req.query.offset)));
+  } catch (error) {
+    logger.error('Error loading comments', error);
+    res.status(500).send('<div class="no-news">Error loading comments</div>');
+  }
+});
+
+// Comment form errors go to the slot of the form that was submitted
+function sendCommentErrors(res: Response, target: string, errors: Array<{ message: string }>) {
+  res.status(400)
+    .set('HX-Retarget', target)
+    .set('HX-Reswap', 'innerHTML')
+    .send(generateFormErrorsHtml(errors));
+}
+
+app.post('/news/:id(\\d+)/comments', async (req: Request, res: Response) => {
+  return tracing.traceAsync('handle_create_comment', async () => {
+    const newsId = parseInt(req.params.id, 10);
+    const { body, author, parentId } = req.body;
+    const isHtmxRequest = req.headers['hx-request'] === 'true';
+    const errorsTarget = commentErrorsTarget(newsId, offsetParam(parentId) || null);
+
+    const validation = validateCommentSubmission({ body, author, parentId });
+    if (!validation.valid) {
+      return isHtmxRequest
+        ? sendCommentErrors(res, errorsTarget, [{ message: validation.error.error }])
+        : res.status(400).json(validation.error);
+    }
+
+    // Like votes, the comment source comes from the credential
+    let apiKey: ApiKey | null;
+    try {
+      apiKey = await resolveRequestApiKey(req, db);
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        return res.status(401).json({ error: error.message });
+      }
+      throw error;
+    }
+    if (apiKey && !hasScope(apiKey, 'comment')) {
+      return res.status(403).json({ error: "API key lacks the 'comment' scope" });
+    }
+    const commenter: Voter = apiKey ? machineVoter(apiKey) : humanVoter(getClientIp(req));
+
+    try {
+      const comment = await db.addComment(newsId, validation.value.parentId, validation.value.body, validation.value.author, commenter);
+      if (!comment) {
+        return res.status(404).json({ error: 'News item not found' });
+      }
+      logger.info('Comment added', { newsId, commentId: comment.id, parentId: comment.parent_id, source: comment.comment_source });
+
+      if (isHtmxRequest) {
+        res.send(generateCommentHtml(comment));
+      } else {
+        res.status(201).json({ success: true, data: toPublicComment(comment) });
+      }
+    } catch (error) {
+      if (error instanceof CommentThreadError) {
+        return isHtmxRequest
+          ? sendCommentErrors(res, errorsTarget, [{ message: error.message }])
+          : res.status(400).json({ error: error.message });
+      }
+      logger.error('Error adding comment', error);
+      res.status(500).json({ error: 'Error adding comment' });
+    }
+  });
+});
+
+app.get('/search-feed', async (req: Request, res: Response) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q : '';
+    res.send(await generateSearchResultsHtml(q, offsetParam(req.query.offset)));
+  } catch (error) {
+    logger.error('Error loading search results', error);
+    res.status(500).send('<div class="no-news">Error loading search results</div>');
+  }
+});
+
 app.get('/news-feed', async (req: Request, res: Response) => {
   try {
     const sort = req.query.sort as 'top' | 'new' | 'classic' || 'top';
-    const newsItems = await db.getNewsItemsBySort(sort);
-    const newsHtml = await generateNewsHtml(newsItems, db);
-    res.send(newsHtml);
+    const by = scoreBasisParam(req.query.by);
+    const tag = tagParam(req.query.tag);
+    const cursor = req.query.cursor as string | undefined;
+    const page = await db.getNewsPageBySort(sort, { limit: FEED_PAGE_SIZE, cursor, by, tag: tag ?? undefined });
+
+    // Later pages only append items, so an empty page must not show the "be the first" message
+    const newsHtml = cursor && page.items.length === 0 ? '' : await generateNewsHtml(page.items, db);
+    res.send(newsHtml + generateLoadMoreHtml(sort, by, page.nextCursor, tag));
   } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).send('<div class="no-news">Invalid page cursor</div>');
+    }
     logger.error('Error loading news feed', error);
     res.status(500).send('<div class="no-news">Error loading news</div>');
   }
 });
 
+const FEED_ITEM_LIMIT = 50;
+
+app.get('/feed.:format(rss|atom|json)', async (req: Request, res: Response) => {
+  try {
+    const format = req.params.format as FeedFormat;
+    const sort = (req.query.sort as string) || 'top';
+    if (!['top', 'new', 'classic'].includes(sort)) {
+      return res.status(400).json({ error: "sort must be 'top', 'new' or 'classic'" });
+    }
+    const by = (req.query.by as string) || 'blended';
+    if (!SCORE_BASES.includes(by as ScoreBasis)) {
+      return res.status(400).json({ error: "by must be 'blended', 'human' or 'machine'" });
+    }
+    const tagSlug = tagParam(req.query.tag);
+    const tag = tagSlug ? await db.findTag(tagSlug) : null;
+    if (tagSlug && !tag) {
+      return res.status(400).json({ error: `Unknown tag '${tagSlug}'` });
+    }
+
+    const items = await db.attachItemDetails(await db.getNewsItemsBySort(sort as 'top' | 'new' | 'classic', {
+      limit: FEED_ITEM_LIMIT,
+      by: by as ScoreBasis,
+      tag: tag?.slug
+    }));
+    const updated = items.reduce(
+      (latest, item) => {
+        const created = parseDbTimestamp(item.created_at);
+        return created > latest ? created : latest;
+      },
+      new Date(0)
+    );
+
+    const { body, contentType } = renderFeed(format, items, {
+      sort: sort as 'top' | 'new' | 'classic',
+      by: by as ScoreBasis,
+      tag,
+      baseUrl: PUBLIC_BASE_URL,
+      selfUrl: `${PUBLIC_BASE_URL}/feed.${format}?${listingQuery(sort, by as ScoreBasis, tag?.slug)}`,
+      updated
+    });
+
+    // The body only depends on item data, so identical feeds get identical ETags. No
+    // Last-Modified: scores and the Top order change without any item being created.
+    res.set({
+      'Content-Type': contentType,
+      'ETag': `"${crypto.createHash('sha1').update(body).digest('base64url')}"`,
+      'Cache-Control': 'public, max-age=60'
+    });
+
+    // req.fresh evaluates If-None-Match against the ETag set above
+    if (req.fresh) {
+      return res.status(304).end();
+    }
+
+    res.send(body);
+  } catch (error) {
+    logger.error('Error generating feed', error);
+    res.status(500).json({ error: 'Error generating feed' });
+  }
+});
+
+// MCP server over streamable HTTP (stateless: one server instance per request)
+app.post('/mcp', async (req: Request, res: Response) => {
+  return tracing.traceAsync('handle_mcp', async () => {
+    let apiKey: ApiKey | null;
+    try {
+      apiKey = await resolveRequestApiKey(req, db);
+    } catch (error) {
+      if (error instanceof ApiKeyError) {
+        return res.status(401).json({
+          jsonrpc: '2.0',
+          error: { code: -32001, message: error.message },
+          id: null
+        });
+      }
+      throw error;
+    }
+
+    const server = createMcpServer(db, { transport: 'http', apiKey });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Error handling MCP request', error);
+      if (!res.headersSent) {
+        res.status(500).json({
+          jsonrpc: '2.0',
+          error: { code: -32603, message: 'Internal server error' },
+          id: null
+        });
+      }
+    }
+  });
+});
+
+app.all('/mcp', (req: Request, res: Response) => {
+  res.status(405).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed' },
+    id: null
+  });
+});
+
+app.use(API_V1_BASE_PATH, createApiV1Router(db));
+
 // API documentation endpoint
 app.get('/api', (req: Request, res: Response) => {
   const apiDocs = {
@@ -464,10 +672,11 @@ app.get('/api', (req: Request, res: Response) => {
     version: "1.0.0",
     endpoints: {
       "POST /news": {
-        description: "Submit a new news item",
+        description: "Submit a new news item. Requests with an API key (submit scope) are attributed to the key and count against its quota",
         parameters: {
           summary: "string (max 200 chars) - Brief summary of the news",
-          link: "string (valid URL) - Link to the full article"
+          link: "string (valid URL) - Link to the full article",
+          tags: "string[] or comma-separated string (optional) - up to 3 tag slugs from GET /api/v1/tags"
         },
         example: {
           summary: "OpenAI releases GPT-5 with advanced reasoning capabilities",
@@ -478,43 +687,97 @@ app.get('/api', (req: Request, res: Response) => {
   -d '{"summary":"Your news summary","link":"https://example.com"}'`
       },
       "POST /vote": {
-        description: "Vote on a news item",
+        description: "Vote on a news item; repeating your current vote removes it. Requests with an API key (vote scope) count as machine votes",
         parameters: {
           newsId: "number - ID of the news item",
           voteType: "string - 'up' or 'down'"
         }
       },
+      "GET /news/:id": {
+        description: "An item's page with its discussion"
+      },
+      "POST /news/:id/comments": {
+        description: "Comment on a published item, or reply to one of its comments. Requests with an API key (comment scope) count as machine comments. HTMX requests get the comment's HTML",
+        parameters: {
+          body: "string (max 2000 chars) - the comment",
+          author: "string (optional, max 50 chars) - signature, defaults to Anonymous",
+          parentId: "number (optional) - the comment to reply to"
+        }
+      },
+      "GET /news/:id/comments": {
+        description: "A page of comments as HTML (HTMX endpoint), oldest first",
+        parameters: {
+          parent: "number (optional) - list the replies to this comment instead of the top-level comments",
+          offset: "number (optional) - comments to skip"
+        }
+      },
       "GET /news-feed": {
         description: "Get news feed HTML (HTMX endpoint)",
         parameters: {
-          sort: "string - 'top', 'new', or 'classic'"
+          sort: "string - 'top', 'new', or 'classic'",
+          by: "string (optional) - 'blended' (default), 'human' or 'machine' votes to rank by",
+          tag: "string (optional) - only items with this tag slug",
+          cursor: "string (optional) - opaque cursor from the previous page's load-more link"
         }
-      }
+      },
+      "GET /search": {
+        description: "Search page; results are ranked by relevance and matched words highlighted (GET /search-feed serves further pages for HTMX)",
+        parameters: {
+          q: "string - words to search for, plus optional site:example.org and author:name filters",
+          offset: "number (optional) - results to skip"
+        }
+      },
+      "GET /feed.rss | /feed.atom | /feed.json": {
+        description: "RSS 2.0, Atom and JSON Feed outputs with ETag conditional GET support",
+        parameters: {
+          sort: "string - 'top', 'new', or 'classic'",
+          by: "string (optional) - 'blended' (default), 'human' or 'machine' votes to rank by",
+          tag: "string (optional) - a per-tag feed: only items with this tag slug"
+        }
+      },
+      "POST /mcp": {
+        description: "Model Context Protocol server (streamable HTTP). Tools: list_news, list_tags, list_comments, submit_news, vote_news, comment_news. Resources: news://top, news://new, news://classic. submit_news, vote_news and comment_news need an API key with the submit/vote/comment scope",
+        stdio: "npm run mcp"
+      },
+      ...getApiV1Docs()
+    },
+    envelopes: {
+      success: { success: true, data: "object | array", meta: "object (optional)" },
+      error: { success: false, error: { code: "string", message: "string", details: "object (optional)" } }
     }
   };
   res.json(apiDocs);
 });
 
-process.on('SIGINT', async () => {
-  logger.info('Shutting down gracefully...');
-  await db.close();
-  process.exit(0);
-});
+app.use(errorHandlingMiddleware);
 
-process.on('SIGTERM', async () => {
-  logger.info('Shutting down gracefully...');
-  await db.close();
-  process.exit(0);
-});
+// Listens only when run directly, so tests can import the app
+if (require.main === module) {
+  process.on('SIGINT', async () => {
+    logger.info('Shutting down gracefully...');
+    await db.close();
+    process.exit(0);
+  });
 
-app.use(errorHandlingMiddleware);
+  process.on('SIGTERM', async () => {
+    logger.info('Shutting down gracefully...');
+    await db.close();
+    process.exit(0);
+  });
 
-app.listen(PORT, () => {
-  logger.info(`🚀 Agentic AI News server running on http://localhost:${PORT}`, {
-    port: PORT,
-    environment: process.env.NODE_ENV || 'development',
-    pid: process.pid
+  db.ready.then(() => {
+    startVoterIdRetention(db);
+    app.listen(PORT, () => {
+      logger.info(`🚀 Agentic AI News server running on http://localhost:${PORT}`, {
+        port: PORT,
+        environment: process.env.NODE_ENV || 'development',
+        pid: process.pid
+      });
+    });
+  }).catch(error => {
+    logger.error('❌ Database initialization failed', error);
+    process.exit(1);
   });
-});
+}
 
 export default app;
\ No newline at end of file
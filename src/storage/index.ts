@@ -0,0 +1,34 @@
+import { NewsStore, StoreType } from './types';
+import { SqliteNewsStore } from './sqliteStore';
+import { PostgresNewsStore } from './postgresStore';
+import { MemoryNewsStore } from './memoryStore';
+
+export * from './types';
+
+// DB_BACKEND picks the store explicitly; otherwise PostgreSQL when DATABASE_URL
+// is provided (Railway sets this) and SQLite for local development
+export function resolveStoreType(): StoreType {
+  const backend = process.env.DB_BACKEND;
+  if (backend === 'sqlite' || backend === 'postgresql' || backend === 'memory') {
+    return backend;
+  }
+  if (backend) {
+    throw new Error(`Unknown DB_BACKEND '${backend}' (expected sqlite, postgresql or memory)`);
+  }
+  return process.env.DATABASE_URL ? 'postgresql' : 'sqlite';
+}
+
+export function createNewsStore(type: StoreType = resolveStoreType()): NewsStore {
+  switch (type) {
+    case 'postgresql':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL is required for the postgresql backend');
+      }
+      return new PostgresNewsStore(process.env.DATABASE_URL);
+    case 'memory':
+      return new MemoryNewsStore();
+    case 'sqlite':
+    default:
+      return new SqliteNewsStore();
+  }
+}
@@ -0,0 +1,664 @@
+import { DatabaseLogger } from '../telemetry';
+import { SortType } from '../cursor';
+import { NewsSearch, linkDomain, matchesSite, matchesTerms } from '../search';
+import { DEFAULT_SCORE_WEIGHTS, SCORE_COLUMNS, ScoreWeights, blendedScore, rankHot, windowStart } from '../ranking';
+import {
+  NewsStore,
+  NewsItem,
+  NewsListOptions,
+  NewsRow,
+  NewNewsItem,
+  NewsStatus,
+  Flag,
+  FlaggedItem,
+  NewFlag,
+  AdminNewsQuery,
+  SubmitterFilter,
+  VotePurgeFilter,
+  BoardStats,
+  Vote,
+  Voter,
+  VoteChange,
+  VoteCountRow,
+  Tag,
+  NewTag,
+  ItemTagRow,
+  Comment,
+  NewComment,
+  ApiKey,
+  ApiKeyRecord,
+  NewApiKey,
+  RateLimitBucket,
+  EXPIRED_VOTER_PREFIX,
+  StoreHealth
+} from './types';
+
+// 'YYYY-MM-DD HH:MM:SS' in UTC, the same shape SQLite's CURRENT_TIMESTAMP produces
+function currentTimestamp(): string {
+  return new Date().toISOString().replace('T', ' ').substring(0, 19);
+}
+
+function toTimestamp(iso: string): string {
+  return new Date(iso).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+// The tags migration 011 seeds on the SQL backends
+const SEED_TAGS: NewTag[] = [
+  { slug: 'research', label: 'Research' },
+  { slug: 'models', label: 'Models' },
+  { slug: 'agents', label: 'Agents' },
+  { slug: 'tools', label: 'Tools' },
+  { slug: 'robotics', label: 'Robotics' },
+  { slug: 'industry', label: 'Industry' },
+  { slug: 'policy', label: 'Policy' },
+  { slug: 'safety', label: 'Safety' }
+];
+
+// Admin listings order by the raw vote_score, feeds by one of SCORE_COLUMNS
+type ScoreColumn = 'vote_score' | 'blended_score' | 'human_score' | 'machine_score';
+
+// Compares two rows in feed order: negative when a sorts before b
+function compareForSort(sortType: SortType, scoreColumn: ScoreColumn, a: NewsItem, b: NewsItem): number {
+  const scoreA = a[scoreColumn] || 0;
+  const scoreB = b[scoreColumn] || 0;
+  if (sortType !== 'new' && scoreA !== scoreB) {
+    return scoreB - scoreA;
+  }
+  if (a.created_at !== b.created_at) {
+    return a.created_at < b.created_at ? 1 : -1;
+  }
+  return b.id - a.id;
+}
+
+// Non-persistent store for local development and tests; nothing survives a restart
+export class MemoryNewsStore implements NewsStore {
+  readonly type = 'memory' as const;
+
+  private newsItems: NewsItem[] = [];
+  private votes: Vote[] = [];
+  private nextNewsId = 1;
+  private nextVoteId = 1;
+  private apiKeys: ApiKeyRecord[] = [];
+  private flags: Flag[] = [];
+  private rateLimitBuckets = new Map<string, RateLimitBucket>();
+  private scoreWeights: ScoreWeights = DEFAULT_SCORE_WEIGHTS;
+  private nextFlagId = 1;
+  private tags: Tag[] = SEED_TAGS.map((tag, index) => ({ ...tag, id: index + 1, created_at: currentTimestamp() }));
+  private nextTagId = SEED_TAGS.length + 1;
+  private itemTags: Array<{ news_item_id: number; tag_id: number }> = [];
+  private comments: Comment[] = [];
+  private nextCommentId = 1;
+
+  private trace<T>(operation: string, description: string, table: string, fn: () => T): Promise<T> {
+    return DatabaseLogger.traceQuery(operation, description, async () => fn(), { table, dbType: 'memory' });
+  }
+
+  async connect(): Promise<void> {}
+
+  getMigrationExecutor(): null {
+    return null;
+  }
+
+  addNewsItem(newItem: NewNewsItem): Promise<number> {
+    return this.trace('insert', 'addNewsItem', 'news_items', () => {
+      // Mirrors the unique index on canonical_url
+      if (this.newsItems.some(item => item.canonical_url === newItem.canonical_url)) {
+        throw new Error('UNIQUE constraint failed: news_items.canonical_url');
+      }
+
+      const id = this.nextNewsId++;
+      this.newsItems.push({
+        id,
+        summary: newItem.summary,
+        link: newItem.link,
+        canonical_url: newItem.canonical_url,
+        author: newItem.author,
+        created_at: currentTimestamp(),
+        vote_score: 0,
+        status: newItem.status,
+        human_upvotes: 0,
+        human_downvotes: 0,
+        machine_upvotes: 0,
+        machine_downvotes: 0,
+        human_score: 0,
+        machine_score: 0,
+        blended_score: 0,
+        comment_count: 0,
+        api_key_id: newItem.api_key_id,
+        submitter_id: newItem.submitter_id
+      });
+      this.tags
+        .filter(tag => newItem.tags.includes(tag.slug))
+        .forEach(tag => this.itemTags.push({ news_item_id: id, tag_id: tag.id }));
+      return id;
+    });
+  }
+
+  getAllNewsItems(query: AdminNewsQuery = {}): Promise<NewsItem[]> {
+    return this.trace('select', 'getAllNewsItems', 'news_items', () => {
+      const items = this.newsItems
+        .filter(item => !query.status || item.status === query.status)
+        .sort((a, b) => compareForSort('classic', 'vote_score', a, b))
+        .map(item => ({ ...item }));
+
+      const offset = query.offset || 0;
+      return query.limit === undefined ? items : items.slice(offset, offset + query.limit);
+    });
+  }
+
+  listNewsItems(sortType: SortType, options: NewsListOptions): Promise<NewsRow[]> {
+    return this.trace('select', `listNewsItems:${sortType}`, 'news_items', () => {
+      const since = options.since ? toTimestamp(options.since) : null;
+      const until = options.until ? toTimestamp(options.until) : null;
+      const after = options.after;
+      if (sortType === 'top' && !options.hot) {
+        throw new Error("The 'top' sort needs a hot ranking");
+      }
+      const hotFrom = options.hot ? toTimestamp(windowStart(options.hot)) : null;
+      const scoreColumn = SCORE_COLUMNS[options.by || 'blended'];
+
+      const matching = this.newsItems
+        .filter(item => item.status === 'published')
+        .filter(item => sortType !== 'top' || item.created_at >= hotFrom!)
+        .filter(item => !since || item.created_at >= since)
+        .filter(item => !until || item.created_at < until)
+        .filter(item => !options.tag || this.hasTag(item.id, options.tag))
+        .map(item => ({ ...item, cursor_key: item.created_at }));
+
+      const rows: NewsRow[] = sortType === 'top'
+        ? rankHot(matching, options.hot!, item => item[scoreColumn] || 0, after)
+        : matching
+          .filter(item => !after || compareForSort(sortType, scoreColumn, item, { ...item, ...after, [scoreColumn]: after.score }) > 0)
+          .sort((a, b) => compareForSort(sortType, scoreColumn, a, b));
+
+      if (options.limit === undefined) {
+        return rows;
+      }
+      const offset = options.offset || 0;
+      return rows.slice(offset, offset + options.limit);
+    });
+  }
+
+  searchNewsItems(search: NewsSearch, options: { limit: number; offset: number }): Promise<NewsItem[]> {
+    return this.trace('select', 'searchNewsItems', 'news_items', () => {
+      // A rough stand-in for bm25: summary matches count most, then author, then domain
+      const rank = (item: NewsItem) => search.terms.reduce((total, term) =>
+        total +
+        (matchesTerms(item.summary, [term]) ? 10 : 0) +
+        (matchesTerms(item.author, [term]) ? 5 : 0) +
+        (matchesTerms(linkDomain(item.canonical_url), [term]) ? 2 : 0), 0);
+
+      return this.newsItems
+        .filter(item => item.status === 'published')
+        .filter(item => matchesTerms(`${item.summary} ${item.author} ${linkDomain(item.canonical_url)}`, search.terms))
+        .filter(item => search.sites.length === 0 || matchesSite(linkDomain(item.canonical_url), search.sites))
+        .filter(item => search.authors.length === 0 || search.authors.includes(item.author.toLowerCase()))
+        .map(item => ({ item, rank: rank(item) }))
+        .sort((a, b) => b.rank - a.rank || compareForSort('new', 'vote_score', a.item, b.item))
+        .slice(options.offset, options.offset + options.limit)
+        .map(({ item }) => ({ ...item }));
+    });
+  }
+
+  getNewsItemById(id: number): Promise<NewsItem | null> {
+    return this.trace('select', 'getNewsItemById', 'news_items', () => {
+      const item = this.newsItems.find(candidate => candidate.id === id);
+      return item ? { ...item } : null;
+    });
+  }
+
+  findNewsItemByCanonicalUrl(canonicalUrl: string): Promise<NewsItem | null> {
+    return this.trace('select', 'findNewsItemByCanonicalUrl', 'news_items', () => {
+      const item = this.newsItems.find(candidate => candidate.canonical_url === canonicalUrl);
+      return item ? { ...item } : null;
+    });
+  }
+
+  countNewsItemsSince(filter: SubmitterFilter, since: string): Promise<number> {
+    return this.trace('select', 'countNewsItemsSince', 'news_items', () => {
+      const from = toTimestamp(since);
+      return this.newsItems.filter(item =>
+        ('submitterIds' in filter ? filter.submitterIds.includes(item.submitter_id ?? '') : item.api_key_id === filter.apiKeyId) &&
+        item.created_at >= from
+      ).length;
+    });
+  }
+
+  setCanonicalUrl(id: number, canonicalUrl: string): Promise<void> {
+    return this.trace('update', 'setCanonicalUrl', 'news_items', () => {
+      const item = this.newsItems.find(candidate => candidate.id === id);
+      if (item) {
+        item.canonical_url = canonicalUrl;
+      }
+    });
+  }
+
+  setNewsItemStatus(id: number, status: NewsStatus): Promise<boolean> {
+    return this.trace('update', 'setNewsItemStatus', 'news_items', () => {
+      const item = this.newsItems.find(candidate => candidate.id === id);
+      if (item) {
+        item.status = status;
+      }
+      return !!item;
+    });
+  }
+
+  deleteNewsItem(id: number): Promise<boolean> {
+    return this.trace('delete', 'deleteNewsItem', 'news_items', () => {
+      const before = this.newsItems.length;
+      this.newsItems = this.newsItems.filter(item => item.id !== id);
+      this.votes = this.votes.filter(vote => vote.news_item_id !== id);
+      this.flags = this.flags.filter(flag => flag.news_item_id !== id);
+      this.itemTags = this.itemTags.filter(itemTag => itemTag.news_item_id !== id);
+      this.comments = this.comments.filter(comment => comment.news_item_id !== id);
+      return this.newsItems.length < before;
+    });
+  }
+
+  addFlag(newFlag: NewFlag): Promise<boolean> {
+    return this.trace('insert', 'addFlag', 'flags', () => {
+      if (this.flags.some(flag => flag.news_item_id === newFlag.news_item_id && flag.reporter_id === newFlag.reporter_id)) {
+        return false;
+      }
+      this.flags.push({ ...newFlag, id: this.nextFlagId++, created_at: currentTimestamp(), resolved_at: null });
+      return true;
+    });
+  }
+
+  getFlags(newsItemId: number): Promise<Flag[]> {
+    return this.trace('select', 'getFlags', 'flags', () =>
+      this.flags.filter(flag => flag.news_item_id === newsItemId).map(flag => ({ ...flag }))
+    );
+  }
+
+  listFlaggedItems(options: { limit: number; offset: number }): Promise<FlaggedItem[]> {
+    return this.trace('select', 'listFlaggedItems', 'news_items', () => {
+      const openFlags = this.flags.filter(flag => flag.resolved_at === null);
+
+      return this.newsItems
+        .filter(item => item.status !== 'deleted')
+        .map(item => {
+          const flags = openFlags.filter(flag => flag.news_item_id === item.id);
+          const flagged: FlaggedItem = {
+            ...item,
+            open_flags: flags.length,
+            flag_reasons: {},
+            last_flagged_at: flags.reduce((latest, flag) => flag.created_at > latest ? flag.created_at : latest, '')
+          };
+          flags.forEach(flag => { flagged.flag_reasons[flag.reason] = (flagged.flag_reasons[flag.reason] || 0) + 1; });
+          return flagged;
+        })
+        .filter(item => item.open_flags > 0)
+        .sort((a, b) => b.open_flags - a.open_flags
+          || (a.last_flagged_at !== b.last_flagged_at ? (a.last_flagged_at < b.last_flagged_at ? 1 : -1) : b.id - a.id))
+        .slice(options.offset, options.offset + options.limit);
+    });
+  }
+
+  resolveFlags(newsItemId: number): Promise<number> {
+    return this.trace('update', 'resolveFlags', 'flags', () => {
+      const open = this.flags.filter(flag => flag.news_item_id === newsItemId && flag.resolved_at === null);
+      open.forEach(flag => { flag.resolved_at = currentTimestamp(); });
+      return open.length;
+    });
+  }
+
+  // Synchronous inside trace(), so concurrent votes can't interleave
+  updateVote(
+    newsItemId: number,
+    voter: Voter,
+    decide: (previous: 'up' | 'down' | null) => 'up' | 'down' | null
+  ): Promise<VoteChange | null> {
+    return this.trace('upsert', 'vote', 'votes', () => {
+      const item = this.newsItems.find(candidate => candidate.id === newsItemId);
+      if (!item || item.status !== 'published') {
+        return null;
+      }
+
+      const voterIds = [voter.id, ...(voter.previousIds || [])];
+      const existingVote = this.votes.find(vote =>
+        vote.news_item_id === newsItemId && voterIds.includes(vote.voter_ip) && vote.vote_source === voter.source
+      );
+      const previous = existingVote ? existingVote.vote_type : null;
+      const current = decide(previous);
+
+      if (previous === current) {
+        return { previous, current }; // Same vote, no change
+      }
+
+      if (current === null) {
+        this.votes = this.votes.filter(vote => vote !== existingVote);
+      } else if (existingVote) {
+        existingVote.vote_type = current;
+        existingVote.voter_ip = voter.id;
+        existingVote.api_key_id = voter.apiKeyId ?? null;
+        existingVote.created_at = currentTimestamp();
+      } else {
+        this.votes.push({
+          id: this.nextVoteId++,
+          news_item_id: newsItemId,
+          vote_type: current,
+          voter_ip: voter.id,
+          vote_source: voter.source,
+          api_key_id: voter.apiKeyId ?? null,
+          created_at: currentTimestamp()
+        });
+      }
+
+      const up = (current === 'up' ? 1 : 0) - (previous === 'up' ? 1 : 0);
+      const down = (current === 'down' ? 1 : 0) - (previous === 'down' ? 1 : 0);
+      item[`${voter.source}_upvotes`] = (item[`${voter.source}_upvotes`] || 0) + up;
+      item[`${voter.source}_downvotes`] = (item[`${voter.source}_downvotes`] || 0) + down;
+      item.vote_score += up - down;
+      this.updateScores(item);
+      return { previous, current };
+    });
+  }
+
+  getVotes(newsItemId: number, options: { limit: number; offset: number }): Promise<Vote[]> {
+    return this.trace('select', 'getVotes', 'votes', () =>
+      this.votes
+        .filter(vote => vote.news_item_id === newsItemId)
+        .sort((a, b) => a.created_at !== b.created_at ? (a.created_at < b.created_at ? 1 : -1) : b.id - a.id)
+        .slice(options.offset, options.offset + options.limit)
+        .map(vote => ({ ...vote }))
+    );
+  }
+
+  getVoteCountRows(newsItemIds: number[]): Promise<VoteCountRow[]> {
+    return this.trace('select', 'getVoteCountRows', 'news_items', () => {
+      const ids = new Set(newsItemIds);
+      return this.newsItems.filter(item => ids.has(item.id)).map(item => ({
+        news_item_id: item.id,
+        human_upvotes: item.human_upvotes || 0,
+        human_downvotes: item.human_downvotes || 0,
+        machine_upvotes: item.machine_upvotes || 0,
+        machine_downvotes: item.machine_downvotes || 0
+      }));
+    });
+  }
+
+  addComment(newComment: NewComment): Promise<Comment> {
+    return this.trace('insert', 'addComment', 'comments', () => {
+      const comment: Comment = {
+        ...newComment,
+        id: this.nextCommentId++,
+        status: 'published',
+        reply_count: 0,
+        created_at: currentTimestamp()
+      };
+      this.comments.push(comment);
+      this.adjustCommentCount(comment.news_item_id, 1);
+      const parent = this.comments.find(candidate => candidate.id === comment.parent_id);
+      if (parent) {
+        parent.reply_count++;
+      }
+      return { ...comment };
+    });
+  }
+
+  getComment(id: number): Promise<Comment | null> {
+    return this.trace('select', 'getComment', 'comments', () => {
+      const comment = this.comments.find(candidate => candidate.id === id);
+      return comment ? { ...comment } : null;
+    });
+  }
+
+  listComments(newsItemId: number, parentId: number | null, options: { limit: number; offset: number }): Promise<Comment[]> {
+    return this.trace('select', 'listComments', 'comments', () => this.comments
+      .filter(comment => comment.news_item_id === newsItemId && comment.parent_id === parentId)
+      .slice(options.offset, options.offset + options.limit)
+      .map(comment => ({ ...comment })));
+  }
+
+  deleteComment(id: number): Promise<boolean> {
+    return this.trace('update', 'deleteComment', 'comments', () => {
+      const comment = this.comments.find(candidate => candidate.id === id && candidate.status === 'published');
+      if (!comment) {
+        return false;
+      }
+      comment.status = 'deleted';
+      this.adjustCommentCount(comment.news_item_id, -1);
+      return true;
+    });
+  }
+
+  // comment_count follows published comments; deleted ones stay in their parent's reply_count
+  private adjustCommentCount(newsItemId: number, delta: number): void {
+    const item = this.newsItems.find(candidate => candidate.id === newsItemId);
+    if (item) {
+      item.comment_count = (item.comment_count || 0) + delta;
+    }
+  }
+
+  listTags(): Promise<Tag[]> {
+    return this.trace('select', 'listTags', 'tags', () =>
+      [...this.tags].sort((a, b) => a.label.localeCompare(b.label) || a.id - b.id).map(tag => ({ ...tag }))
+    );
+  }
+
+  createTag(newTag: NewTag): Promise<Tag> {
+    return this.trace('insert', 'createTag', 'tags', () => {
+      // Mirrors the unique constraint on slug
+      if (this.tags.some(tag => tag.slug === newTag.slug)) {
+        throw new Error('UNIQUE constraint failed: tags.slug');
+      }
+      const tag: Tag = { ...newTag, id: this.nextTagId++, created_at: currentTimestamp() };
+      this.tags.push(tag);
+      return { ...tag };
+    });
+  }
+
+  deleteTag(slug: string): Promise<boolean> {
+    return this.trace('delete', 'deleteTag', 'tags', () => {
+      const tag = this.tags.find(candidate => candidate.slug === slug);
+      if (!tag) {
+        return false;
+      }
+      this.tags = this.tags.filter(candidate => candidate !== tag);
+      this.itemTags = this.itemTags.filter(itemTag => itemTag.tag_id !== tag.id);
+      return true;
+    });
+  }
+
+  getItemTagRows(newsItemIds: number[]): Promise<ItemTagRow[]> {
+    return this.trace('select', 'getItemTagRows', 'news_item_tags', () => {
+      const ids = new Set(newsItemIds);
+      const byLabel = [...this.tags].sort((a, b) => a.label.localeCompare(b.label) || a.id - b.id);
+      return byLabel.flatMap(tag => this.itemTags
+        .filter(itemTag => itemTag.tag_id === tag.id && ids.has(itemTag.news_item_id))
+        .map(itemTag => ({ news_item_id: itemTag.news_item_id, slug: tag.slug })));
+    });
+  }
+
+  private hasTag(newsItemId: number, slug: string): boolean {
+    const tag = this.tags.find(candidate => candidate.slug === slug);
+    return !!tag && this.itemTags.some(itemTag => itemTag.news_item_id === newsItemId && itemTag.tag_id === tag.id);
+  }
+
+  purgeVotes(filter: VotePurgeFilter): Promise<number> {
+    return this.trace('delete', 'purgeVotes', 'votes', () => {
+      const matches = (vote: Vote) => 'voterIds' in filter ? filter.voterIds.includes(vote.voter_ip) : vote.api_key_id === filter.apiKeyId;
+      const purged = this.votes.filter(matches);
+      this.votes = this.votes.filter(vote => !matches(vote));
+      this.recountItems(new Set(purged.map(vote => vote.news_item_id)));
+      return purged.length;
+    });
+  }
+
+  recomputeVoteCounters(newsItemIds?: number[]): Promise<number> {
+    return this.trace('update', 'recomputeVoteCounters', 'news_items', () =>
+      this.recountItems(newsItemIds ? new Set(newsItemIds) : null)
+    );
+  }
+
+  expireVoterIds(before: string): Promise<{ votes: number; flags: number; comments: number; submissions: number }> {
+    return this.trace('update', 'expireVoterIds', 'votes', () => {
+      const cutoff = toTimestamp(before);
+      const live = (id: string, createdAt: string) => !id.startsWith(EXPIRED_VOTER_PREFIX) && createdAt < cutoff;
+
+      const votes = this.votes.filter(vote => vote.vote_source === 'human' && live(vote.voter_ip, vote.created_at));
+      votes.forEach(vote => { vote.voter_ip = `${EXPIRED_VOTER_PREFIX}${vote.id}`; });
+      const flags = this.flags.filter(flag => !flag.reporter_id.startsWith('key:') && live(flag.reporter_id, flag.created_at));
+      flags.forEach(flag => { flag.reporter_id = `${EXPIRED_VOTER_PREFIX}${flag.id}`; });
+      const comments = this.comments.filter(comment => comment.comment_source === 'human' && live(comment.commenter_id, comment.created_at));
+      comments.forEach(comment => { comment.commenter_id = `${EXPIRED_VOTER_PREFIX}${comment.id}`; });
+      const submissions = this.newsItems.filter(item => item.submitter_id && !item.submitter_id.startsWith('key:') && live(item.submitter_id, item.created_at));
+      submissions.forEach(item => { item.submitter_id = `${EXPIRED_VOTER_PREFIX}${item.id}`; });
+
+      return { votes: votes.length, flags: flags.length, comments: comments.length, submissions: submissions.length };
+    });
+  }
+
+  private recountItems(ids: Set<number> | null): number {
+    const items = this.newsItems.filter(item => !ids || ids.has(item.id));
+    items.forEach(item => {
+      const votes = this.votes.filter(vote => vote.news_item_id === item.id);
+      const count = (source: string, type: string) =>
+        votes.filter(vote => vote.vote_source === source && vote.vote_type === type).length;
+
+      item.human_upvotes = count('human', 'up');
+      item.human_downvotes = count('human', 'down');
+      item.machine_upvotes = count('machine', 'up');
+      item.machine_downvotes = count('machine', 'down');
+      item.vote_score = item.human_upvotes + item.machine_upvotes - item.human_downvotes - item.machine_downvotes;
+      this.updateScores(item);
+    });
+    return items.length;
+  }
+
+  private updateScores(item: NewsItem): void {
+    item.human_score = (item.human_upvotes || 0) - (item.human_downvotes || 0);
+    item.machine_score = (item.machine_upvotes || 0) - (item.machine_downvotes || 0);
+    item.blended_score = blendedScore(item.human_score, item.machine_score, this.scoreWeights);
+  }
+
+  setScoreWeights(weights: ScoreWeights): void {
+    this.scoreWeights = weights;
+  }
+
+  rescoreBlended(): Promise<number> {
+    return this.trace('update', 'rescoreBlended', 'news_items', () => {
+      const stale = this.newsItems.filter(item =>
+        item.blended_score !== blendedScore(item.human_score || 0, item.machine_score || 0, this.scoreWeights)
+      );
+      stale.forEach(item => this.updateScores(item));
+      return stale.length;
+    });
+  }
+
+  getStats(): Promise<BoardStats> {
+    return this.trace('select', 'getStats', 'news_items', () => {
+      const count = (source: string, type: string) =>
+        this.votes.filter(vote => vote.vote_source === source && vote.vote_type === type).length;
+
+      return {
+        news_items: {
+          total: this.newsItems.length,
+          pending: this.newsItems.filter(item => item.status === 'pending').length,
+          published: this.newsItems.filter(item => item.status === 'published').length,
+          hidden: this.newsItems.filter(item => item.status === 'hidden').length,
+          deleted: this.newsItems.filter(item => item.status === 'deleted').length
+        },
+        votes: {
+          total: this.votes.length,
+          human_upvotes: count('human', 'up'),
+          human_downvotes: count('human', 'down'),
+          machine_upvotes: count('machine', 'up'),
+          machine_downvotes: count('machine', 'down')
+        },
+        api_keys: {
+          active: this.apiKeys.filter(key => !key.revoked_at).length,
+          revoked: this.apiKeys.filter(key => key.revoked_at).length
+        },
+        flags: {
+          open: this.flags.filter(flag => !flag.resolved_at).length,
+          resolved: this.flags.filter(flag => flag.resolved_at).length
+        },
+        comments: {
+          published: this.comments.filter(comment => comment.status === 'published').length,
+          deleted: this.comments.filter(comment => comment.status === 'deleted').length
+        },
+        tags: Object.fromEntries(this.tags.map(tag => [
+          tag.slug,
+          this.newsItems.filter(item => item.status === 'published' && this.hasTag(item.id, tag.slug)).length
+        ]))
+      };
+    });
+  }
+
+  createApiKey(key: NewApiKey): Promise<ApiKey> {
+    return this.trace('insert', 'createApiKey', 'api_keys', () => {
+      const record: ApiKeyRecord = {
+        ...key,
+        id: this.apiKeys.length + 1,
+        created_at: currentTimestamp(),
+        last_used_at: null,
+        revoked_at: null
+      };
+      this.apiKeys.push(record);
+      const { key_hash, ...apiKey } = record;
+      return { ...apiKey, scopes: [...apiKey.scopes] };
+    });
+  }
+
+  findApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+    return this.trace('select', 'findApiKey', 'api_keys', () => {
+      const record = this.apiKeys.find(candidate => candidate.key_id === keyId);
+      return record ? { ...record, scopes: [...record.scopes] } : null;
+    });
+  }
+
+  listApiKeys(): Promise<ApiKey[]> {
+    return this.trace('select', 'listApiKeys', 'api_keys', () =>
+      [...this.apiKeys].reverse().map(({ key_hash, ...apiKey }) => ({ ...apiKey, scopes: [...apiKey.scopes] }))
+    );
+  }
+
+  revokeApiKey(keyId: string): Promise<boolean> {
+    return this.trace('update', 'revokeApiKey', 'api_keys', () => {
+      const record = this.apiKeys.find(candidate => candidate.key_id === keyId && !candidate.revoked_at);
+      if (!record) {
+        return false;
+      }
+      record.revoked_at = currentTimestamp();
+      return true;
+    });
+  }
+
+  touchApiKey(id: number): Promise<void> {
+    return this.trace('update', 'touchApiKey', 'api_keys', () => {
+      const record = this.apiKeys.find(candidate => candidate.id === id);
+      if (record) {
+        record.last_used_at = currentTimestamp();
+      }
+    });
+  }
+
+  updateRateLimitBucket(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket> {
+    return this.trace('upsert', 'updateRateLimitBucket', 'rate_limit_buckets', () => {
+      const bucket = update(this.rateLimitBuckets.get(key) || null);
+      this.rateLimitBuckets.set(key, { ...bucket });
+      return bucket;
+    });
+  }
+
+  evictRateLimitBuckets(now: number): Promise<number> {
+    return this.trace('delete', 'evictRateLimitBuckets', 'rate_limit_buckets', () => {
+      let evicted = 0;
+      this.rateLimitBuckets.forEach((bucket, key) => {
+        if (bucket.expires_at <= now) {
+          this.rateLimitBuckets.delete(key);
+          evicted++;
+        }
+      });
+      return evicted;
+    });
+  }
+
+  async healthCheck(): Promise<StoreHealth> {
+    return { backend: this.type, latency_ms: 0 };
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient } from 'pg';
+import { logger, DatabaseLogger } from '../telemetry';
+import { SqlNewsStore, QueryResult, DialectSql } from './sqlStore';
+import { PoolStats } from './types';
+
+export interface PostgresPoolOptions {
+  max: number;
+  idleTimeoutMs: number;
+  connectionTimeoutMs: number;
+  statementTimeoutMs: number;
+  // How many times acquiring a connection is retried before the error surfaces
+  connectRetries: number;
+}
+
+const RETRY_BASE_DELAY_MS = 250;
+const RETRY_MAX_DELAY_MS = 8000;
+const POOL_STATS_INTERVAL_MS = 15000;
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function readPoolOptionsFromEnv(): PostgresPoolOptions {
+  return {
+    max: readIntEnv('PG_POOL_MAX', 10),
+    idleTimeoutMs: readIntEnv('PG_POOL_IDLE_TIMEOUT_MS', 30000),
+    connectionTimeoutMs: readIntEnv('PG_CONNECTION_TIMEOUT_MS', 5000),
+    statementTimeoutMs: readIntEnv('PG_STATEMENT_TIMEOUT_MS', 10000),
+    connectRetries: readIntEnv('PG_CONNECT_RETRIES', 5)
+  };
+}
+
+// Rewrites `?` placeholders to Postgres' numbered `$1, $2, ...` form
+function toNumberedPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+// Errors after which the connection itself can't be trusted and must not go back to the pool
+function isConnectionError(error: any): boolean {
+  const code = String(error?.code || '');
+  return ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE'].includes(code)
+    || code.startsWith('08') // connection_exception
+    || code.startsWith('57P'); // admin/crash shutdown
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class PostgresNewsStore extends SqlNewsStore {
+  readonly type = 'postgresql' as const;
+  protected readonly dialectSql: DialectSql = {
+    createdAtOrAfter: 'created_at >= ?::timestamp',
+    createdBefore: 'created_at < ?::timestamp',
+    cursorCreatedAt: '?::timestamp',
+    // Exact text for cursors; a JS Date would round Postgres' microseconds to milliseconds
+    cursorKey: 'created_at::text',
+    hoursSince: 'GREATEST(EXTRACT(EPOCH FROM (?::timestamp - created_at))::float8 / 3600, 0)',
+    floatParam: '?::float8',
+    // chr(63) is '?', which can't appear literally since every ? becomes a placeholder
+    linkDomain: "split_part(split_part(news_items.canonical_url, '/', 1), chr(63), 1)",
+    searchJoin: "JOIN news_search ON news_search.news_item_id = news_items.id CROSS JOIN to_tsquery('simple', ?) AS search_query",
+    searchMatch: 'news_search.document @@ search_query',
+    searchRank: 'ts_rank(news_search.document, search_query)',
+    // Every term as a prefix, all required; terms are letters and digits only
+    searchQuery: terms => terms.map(term => `${term}:*`).join(' & '),
+    beginTransaction: 'BEGIN',
+    lockNewsItem: 'SELECT id, status FROM news_items WHERE id = ? FOR UPDATE',
+    lockRateLimitBucket: 'SELECT tokens, updated_at, expires_at FROM rate_limit_buckets WHERE bucket_key = ? FOR UPDATE'
+  };
+
+  private pool: Pool;
+  // The client an open transaction is pinned to, for queries issued inside it
+  private transactionClient = new AsyncLocalStorage<PoolClient>();
+  private statsTimer: NodeJS.Timeout | null = null;
+
+  constructor(connectionString: string, private options: PostgresPoolOptions = readPoolOptionsFromEnv()) {
+    super();
+    this.pool = new Pool({
+      connectionString,
+      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+      max: options.max,
+      idleTimeoutMillis: options.idleTimeoutMs,
+      connectionTimeoutMillis: options.connectionTimeoutMs,
+      statement_timeout: options.statementTimeoutMs
+    });
+
+    // Idle clients that lose their connection are dropped by the pool; without a
+    // listener the error would crash the process
+    this.pool.on('error', error => {
+      logger.warn('PostgreSQL idle connection lost', { error: error.message });
+    });
+    this.pool.on('connect', () => this.reportPoolStats());
+    this.pool.on('remove', () => this.reportPoolStats());
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const client = await this.acquire();
+      client.release();
+      logger.info('✅ Connected to PostgreSQL database', { poolMax: this.options.max });
+    } catch (error) {
+      logger.error('❌ Failed to connect to PostgreSQL', error);
+      throw error;
+    }
+
+    this.statsTimer = setInterval(() => this.reportPoolStats(), POOL_STATS_INTERVAL_MS);
+    this.statsTimer.unref();
+  }
+
+  getPoolStats(): PoolStats {
+    return {
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      active: this.pool.totalCount - this.pool.idleCount,
+      waiting: this.pool.waitingCount
+    };
+  }
+
+  private reportPoolStats(): void {
+    DatabaseLogger.logConnectionPool({ ...this.getPoolStats(), dbType: 'postgresql' });
+  }
+
+  // pool.connect() with exponential backoff; nothing has been sent yet, so retrying is always safe
+  private async acquire(): Promise<PoolClient> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.pool.connect();
+      } catch (error) {
+        if (attempt >= this.options.connectRetries) {
+          throw error;
+        }
+        const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+        logger.warn('PostgreSQL connection attempt failed, retrying', {
+          attempt: attempt + 1,
+          delayMs: delay,
+          error: (error as Error).message
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.acquire();
+    let releaseError: Error | undefined;
+    try {
+      return await fn(client);
+    } catch (error) {
+      if (isConnectionError(error)) {
+        releaseError = error as Error;
+      }
+      throw error;
+    } finally {
+      client.release(releaseError);
+    }
+  }
+
+  protected async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+    const run = async (client: PoolClient) => {
+      const result = await client.query(toNumberedPlaceholders(sql), params);
+      return { rows: result.rows, changes: result.rowCount ?? undefined };
+    };
+
+    const transactionClient = this.transactionClient.getStore();
+    return transactionClient ? run(transactionClient) : this.withClient(run);
+  }
+
+  protected async executeScript(sql: string): Promise<void> {
+    const transactionClient = this.transactionClient.getStore();
+    if (transactionClient) {
+      await transactionClient.query(sql);
+    } else {
+      await this.withClient(client => client.query(sql));
+    }
+  }
+
+  protected async withTransactionConnection<T>(fn: () => Promise<T>): Promise<T> {
+    return this.withClient(client => this.transactionClient.run(client, fn));
+  }
+
+  protected async tableExists(table: string): Promise<boolean> {
+    const { rows } = await this.execute('SELECT to_regclass(?) AS oid', [table]);
+    return rows[0].oid !== null;
+  }
+
+  async close(): Promise<void> {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+    await this.pool.end();
+    logger.info('PostgreSQL connection pool closed');
+  }
+}
@@ -0,0 +1,930 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { DatabaseLogger } from '../telemetry';
+import { SortType } from '../cursor';
+import { MigrationExecutor } from '../migrator';
+import { AGE_OFFSET_HOURS, DEFAULT_SCORE_WEIGHTS, SCORE_COLUMNS, ScoreWeights, rankHot, windowStart } from '../ranking';
+import {
+  NewsStore,
+  NewsItem,
+  NewsListOptions,
+  NewsRow,
+  NewNewsItem,
+  NewsStatus,
+  Flag,
+  FlagReason,
+  FlaggedItem,
+  NewFlag,
+  AdminNewsQuery,
+  SubmitterFilter,
+  VotePurgeFilter,
+  BoardStats,
+  VoteCounts,
+  Vote,
+  Voter,
+  VoteChange,
+  VoteCountRow,
+  Tag,
+  NewTag,
+  ItemTagRow,
+  Comment,
+  CommentStatus,
+  NewComment,
+  ApiKey,
+  ApiKeyRecord,
+  ApiKeyScope,
+  NewApiKey,
+  RateLimitBucket,
+  PoolStats,
+  EXPIRED_VOTER_PREFIX,
+  StoreHealth
+} from './types';
+import { NewsSearch } from '../search';
+
+// scopes are stored comma-separated; timestamps come back as Date from pg
+function toApiKeyRecord(row: any): ApiKeyRecord {
+  return {
+    id: Number(row.id),
+    key_id: row.key_id,
+    key_hash: row.key_hash,
+    owner: row.owner,
+    agent_name: row.agent_name,
+    scopes: String(row.scopes).split(',').filter(Boolean) as ApiKeyScope[],
+    created_at: String(row.created_at),
+    last_used_at: row.last_used_at === null ? null : String(row.last_used_at),
+    revoked_at: row.revoked_at === null ? null : String(row.revoked_at)
+  };
+}
+
+function toFlag(row: any): Flag {
+  return {
+    id: Number(row.id),
+    news_item_id: Number(row.news_item_id),
+    reason: row.reason,
+    details: row.details,
+    reporter_id: row.reporter_id,
+    created_at: String(row.created_at),
+    resolved_at: row.resolved_at === null ? null : String(row.resolved_at)
+  };
+}
+
+function toTag(row: any): Tag {
+  return {
+    id: Number(row.id),
+    slug: row.slug,
+    label: row.label,
+    created_at: String(row.created_at)
+  };
+}
+
+function toComment(row: any): Comment {
+  return {
+    id: Number(row.id),
+    news_item_id: Number(row.news_item_id),
+    parent_id: row.parent_id === null ? null : Number(row.parent_id),
+    depth: Number(row.depth),
+    body: row.body,
+    author: row.author,
+    comment_source: row.comment_source,
+    commenter_id: row.commenter_id,
+    api_key_id: row.api_key_id === null ? null : Number(row.api_key_id),
+    status: row.status,
+    reply_count: Number(row.reply_count),
+    created_at: String(row.created_at)
+  };
+}
+
+// Restricts a news_items query to items carrying the tag bound in its place
+const TAGGED_WITH = `id IN (
+  SELECT news_item_tags.news_item_id FROM news_item_tags
+  JOIN tags ON tags.id = news_item_tags.tag_id
+  WHERE tags.slug = ?
+)`;
+
+export interface QueryResult {
+  rows: any[];
+  changes?: number;
+}
+
+// SQL fragments that differ between dialects; everything else is shared
+export interface DialectSql {
+  createdAtOrAfter: string;
+  createdBefore: string;
+  cursorCreatedAt: string;
+  cursorKey: string;
+  // Non-negative hours from the bound instant (ISO 8601) back to created_at
+  hoursSince: string;
+  // A bound parameter that must be treated as a float, not an integer
+  floatParam: string;
+  // linkDomain (search.ts) of a news_items row, for site: filters
+  linkDomain: string;
+  // Joins a news_items query to the search index; searchMatch and searchRank need it
+  searchJoin: string;
+  searchMatch: string;
+  // Higher is more relevant
+  searchRank: string;
+  // The search terms as the one parameter of searchJoin or searchMatch (whichever has it)
+  searchQuery(terms: string[]): string;
+  beginTransaction: string;
+  // Selects a news item by id and holds it for the rest of the transaction
+  lockNewsItem: string;
+  // Same for a rate-limit bucket
+  lockRateLimitBucket: string;
+}
+
+// Shared SQL implementation of NewsStore. Queries are written with `?`
+// placeholders; dialects translate them in execute() where needed.
+export abstract class SqlNewsStore implements NewsStore {
+  abstract readonly type: 'sqlite' | 'postgresql';
+  protected abstract readonly dialectSql: DialectSql;
+  // False when the backend has no power(); 'top' listings are then ranked in JS
+  protected hasMathFunctions = true;
+  protected scoreWeights: ScoreWeights = DEFAULT_SCORE_WEIGHTS;
+  // Set while the current async context is inside transaction()
+  protected readonly transactionScope = new AsyncLocalStorage<true>();
+
+  abstract connect(): Promise<void>;
+  abstract close(): Promise<void>;
+  protected abstract execute(sql: string, params?: any[]): Promise<QueryResult>;
+  protected abstract executeScript(sql: string): Promise<void>;
+  protected abstract tableExists(table: string): Promise<boolean>;
+
+  protected async query(operation: string, table: string, sql: string, params: any[] = []): Promise<any[]> {
+    return DatabaseLogger.traceQuery(
+      operation,
+      sql,
+      async () => (await this.execute(sql, params)).rows,
+      { table, dbType: this.type, params }
+    );
+  }
+
+  protected async transaction<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    // Nested calls join the transaction that is already open
+    if (this.transactionScope.getStore()) {
+      return fn();
+    }
+
+    return DatabaseLogger.traceTransaction(name, () => this.withTransactionConnection(() =>
+      this.transactionScope.run(true, async () => {
+        await this.execute(this.dialectSql.beginTransaction);
+        try {
+          const result = await fn();
+          await this.execute('COMMIT');
+          return result;
+        } catch (error) {
+          await this.execute('ROLLBACK');
+          throw error;
+        }
+      })
+    ), { dbType: this.type });
+  }
+
+  // Backends with several connections pin everything inside fn to a single one
+  protected withTransactionConnection<T>(fn: () => Promise<T>): Promise<T> {
+    return fn();
+  }
+
+  async purgeVotes(filter: VotePurgeFilter): Promise<number> {
+    const [column, values]: [string, Array<string | number>] = 'voterIds' in filter
+      ? ['voter_ip', filter.voterIds]
+      : ['api_key_id', [filter.apiKeyId]];
+    if (values.length === 0) {
+      return 0;
+    }
+    const where = `${column} IN (${values.map(() => '?').join(', ')})`;
+
+    return this.transaction('purge_votes', async () => {
+      const affected = await this.query(
+        'select',
+        'votes',
+        `SELECT DISTINCT news_item_id FROM votes WHERE ${where}`,
+        values
+      );
+      const deleted = await this.query('delete', 'votes', `DELETE FROM votes WHERE ${where} RETURNING id`, values);
+
+      if (affected.length > 0) {
+        await this.recomputeVoteCounters(affected.map(row => Number(row.news_item_id)));
+      }
+      return deleted.length;
+    });
+  }
+
+  async recomputeVoteCounters(newsItemIds?: number[]): Promise<number> {
+    if (newsItemIds && newsItemIds.length === 0) {
+      return 0;
+    }
+
+    const where = newsItemIds ? `WHERE id IN (${newsItemIds.map(() => '?').join(', ')})` : '';
+    const params = newsItemIds || [];
+    const count = (source: string, type: string) =>
+      `(SELECT COUNT(*) FROM votes WHERE votes.news_item_id = news_items.id AND vote_source = '${source}' AND vote_type = '${type}')`;
+
+    return this.transaction('recompute_vote_counters', async () => {
+      const rows = await this.query('update', 'news_items', `
+        UPDATE news_items SET
+          human_upvotes = ${count('human', 'up')},
+          human_downvotes = ${count('human', 'down')},
+          machine_upvotes = ${count('machine', 'up')},
+          machine_downvotes = ${count('machine', 'down')}
+        ${where}
+        RETURNING id
+      `, params);
+      await this.query('update', 'news_items', `
+        UPDATE news_items SET
+          vote_score = human_upvotes + machine_upvotes - human_downvotes - machine_downvotes,
+          human_score = human_upvotes - human_downvotes,
+          machine_score = machine_upvotes - machine_downvotes,
+          blended_score = ${this.blendedScoreSql('human_upvotes - human_downvotes', 'machine_upvotes - machine_downvotes')}
+        ${where}
+      `, [...this.blendedScoreParams(), ...params]);
+      return rows.length;
+    });
+  }
+
+  setScoreWeights(weights: ScoreWeights): void {
+    this.scoreWeights = weights;
+  }
+
+  async rescoreBlended(): Promise<number> {
+    const blended = this.blendedScoreSql('human_score', 'machine_score');
+    const rows = await this.query(
+      'update',
+      'news_items',
+      `UPDATE news_items SET blended_score = ${blended} WHERE blended_score <> ${blended} RETURNING id`,
+      [...this.blendedScoreParams(), ...this.blendedScoreParams()]
+    );
+    return rows.length;
+  }
+
+  // Same formula as blendedScore in ranking.ts; bind blendedScoreParams() where it appears
+  private blendedScoreSql(humanScore: string, machineScore: string): string {
+    const float = this.dialectSql.floatParam;
+    return `${float} * (${humanScore}) + ${float} * (${machineScore})`;
+  }
+
+  private blendedScoreParams(): number[] {
+    return [this.scoreWeights.human, this.scoreWeights.machine];
+  }
+
+  async expireVoterIds(before: string): Promise<{ votes: number; flags: number; comments: number; submissions: number }> {
+    // Only prefixes and column names are interpolated, never caller input
+    const expired = `'${EXPIRED_VOTER_PREFIX}' || id`;
+    const notExpired = `NOT LIKE '${EXPIRED_VOTER_PREFIX}%'`;
+
+    return this.transaction('expire_voter_ids', async () => {
+      const votes = await this.query(
+        'update',
+        'votes',
+        `UPDATE votes SET voter_ip = ${expired} WHERE vote_source = 'human' AND voter_ip ${notExpired} AND ${this.dialectSql.createdBefore} RETURNING id`,
+        [before]
+      );
+      const flags = await this.query(
+        'update',
+        'flags',
+        `UPDATE flags SET reporter_id = ${expired} WHERE reporter_id NOT LIKE 'key:%' AND reporter_id ${notExpired} AND ${this.dialectSql.createdBefore} RETURNING id`,
+        [before]
+      );
+      const comments = await this.query(
+        'update',
+        'comments',
+        `UPDATE comments SET commenter_id = ${expired} WHERE comment_source = 'human' AND commenter_id ${notExpired} AND ${this.dialectSql.createdBefore} RETURNING id`,
+        [before]
+      );
+      const submissions = await this.query(
+        'update',
+        'news_items',
+        `UPDATE news_items SET submitter_id = ${expired} WHERE submitter_id NOT LIKE 'key:%' AND submitter_id ${notExpired} AND ${this.dialectSql.createdBefore} RETURNING id`,
+        [before]
+      );
+      return { votes: votes.length, flags: flags.length, comments: comments.length, submissions: submissions.length };
+    });
+  }
+
+  async getStats(): Promise<BoardStats> {
+    const statusRows = await this.query('select', 'news_items', 'SELECT status, COUNT(*) AS n FROM news_items GROUP BY status');
+    const voteRows = await this.query('select', 'votes', 'SELECT vote_source, vote_type, COUNT(*) AS n FROM votes GROUP BY vote_source, vote_type');
+    const keyRows = await this.query(
+      'select',
+      'api_keys',
+      'SELECT CASE WHEN revoked_at IS NULL THEN 1 ELSE 0 END AS active, COUNT(*) AS n FROM api_keys GROUP BY 1'
+    );
+    const flagRows = await this.query(
+      'select',
+      'flags',
+      'SELECT CASE WHEN resolved_at IS NULL THEN 1 ELSE 0 END AS open, COUNT(*) AS n FROM flags GROUP BY 1'
+    );
+    const commentRows = await this.query('select', 'comments', 'SELECT status, COUNT(*) AS n FROM comments GROUP BY status');
+    const tagRows = await this.query('select', 'tags', `
+      SELECT tags.slug, COUNT(news_items.id) AS n FROM tags
+      LEFT JOIN news_item_tags ON news_item_tags.tag_id = tags.id
+      LEFT JOIN news_items ON news_items.id = news_item_tags.news_item_id AND news_items.status = 'published'
+      GROUP BY tags.slug
+    `);
+
+    const stats: BoardStats = {
+      news_items: { total: 0, pending: 0, published: 0, hidden: 0, deleted: 0 },
+      votes: { total: 0, human_upvotes: 0, human_downvotes: 0, machine_upvotes: 0, machine_downvotes: 0 },
+      api_keys: { active: 0, revoked: 0 },
+      flags: { open: 0, resolved: 0 },
+      comments: { published: 0, deleted: 0 },
+      tags: {}
+    };
+
+    // Postgres returns COUNT(*) as a string
+    statusRows.forEach(row => {
+      stats.news_items[row.status as NewsStatus] = Number(row.n);
+      stats.news_items.total += Number(row.n);
+    });
+    voteRows.forEach(row => {
+      stats.votes[`${row.vote_source}_${row.vote_type}votes` as keyof VoteCounts] = Number(row.n);
+      stats.votes.total += Number(row.n);
+    });
+    keyRows.forEach(row => {
+      stats.api_keys[Number(row.active) === 1 ? 'active' : 'revoked'] = Number(row.n);
+    });
+    flagRows.forEach(row => {
+      stats.flags[Number(row.open) === 1 ? 'open' : 'resolved'] = Number(row.n);
+    });
+    commentRows.forEach(row => {
+      stats.comments[row.status as CommentStatus] = Number(row.n);
+    });
+    tagRows.forEach(row => {
+      stats.tags[row.slug] = Number(row.n);
+    });
+
+    return stats;
+  }
+
+  async createApiKey(key: NewApiKey): Promise<ApiKey> {
+    const rows = await this.query(
+      'insert',
+      'api_keys',
+      'INSERT INTO api_keys (key_id, key_hash, owner, agent_name, scopes) VALUES (?, ?, ?, ?, ?) RETURNING *',
+      [key.key_id, key.key_hash, key.owner, key.agent_name, key.scopes.join(',')]
+    );
+    const { key_hash, ...apiKey } = toApiKeyRecord(rows[0]);
+    return apiKey;
+  }
+
+  async findApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+    const rows = await this.query('select', 'api_keys', 'SELECT * FROM api_keys WHERE key_id = ?', [keyId]);
+    return rows[0] ? toApiKeyRecord(rows[0]) : null;
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const rows = await this.query('select', 'api_keys', 'SELECT * FROM api_keys ORDER BY created_at DESC, id DESC');
+    return rows.map(row => {
+      const { key_hash, ...apiKey } = toApiKeyRecord(row);
+      return apiKey;
+    });
+  }
+
+  async revokeApiKey(keyId: string): Promise<boolean> {
+    const rows = await this.query(
+      'update',
+      'api_keys',
+      'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE key_id = ? AND revoked_at IS NULL RETURNING id',
+      [keyId]
+    );
+    return rows.length > 0;
+  }
+
+  async touchApiKey(id: number): Promise<void> {
+    await this.query('update', 'api_keys', 'UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+  }
+
+  // The insert doubles as the lock for a new key: a concurrent insert of the same
+  // key waits for ours to commit and then finds the row
+  async updateRateLimitBucket(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket> {
+    return this.transaction('rate_limit', async () => {
+      const fresh = update(null);
+      const inserted = await this.query(
+        'insert',
+        'rate_limit_buckets',
+        `INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at, expires_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (bucket_key) DO NOTHING RETURNING bucket_key`,
+        [key, fresh.tokens, fresh.updated_at, fresh.expires_at]
+      );
+      if (inserted.length > 0) {
+        return fresh;
+      }
+
+      // bigint columns come back from pg as strings
+      const [row] = await this.query('select', 'rate_limit_buckets', this.dialectSql.lockRateLimitBucket, [key]);
+      const bucket = update({
+        tokens: Number(row.tokens),
+        updated_at: Number(row.updated_at),
+        expires_at: Number(row.expires_at)
+      });
+      await this.query(
+        'update',
+        'rate_limit_buckets',
+        'UPDATE rate_limit_buckets SET tokens = ?, updated_at = ?, expires_at = ? WHERE bucket_key = ?',
+        [bucket.tokens, bucket.updated_at, bucket.expires_at, key]
+      );
+      return bucket;
+    });
+  }
+
+  async evictRateLimitBuckets(now: number): Promise<number> {
+    const rows = await this.query('delete', 'rate_limit_buckets', 'DELETE FROM rate_limit_buckets WHERE expires_at <= ? RETURNING bucket_key', [now]);
+    return rows.length;
+  }
+
+  getPoolStats(): PoolStats | undefined {
+    return undefined;
+  }
+
+  async healthCheck(): Promise<StoreHealth> {
+    const start = Date.now();
+    await this.execute('SELECT 1');
+    return { backend: this.type, latency_ms: Date.now() - start, pool: this.getPoolStats() };
+  }
+
+  getMigrationExecutor(): MigrationExecutor {
+    return {
+      dialect: this.type,
+      exec: sql => DatabaseLogger.traceQuery('migration', sql, () => this.executeScript(sql), { dbType: this.type }),
+      query: (sql, params) => this.query('migration', 'schema_migrations', sql, params),
+      transaction: (name, fn) => this.transaction(name, fn),
+      tableExists: table => this.tableExists(table)
+    };
+  }
+
+  async addNewsItem(item: NewNewsItem): Promise<number> {
+    return this.transaction('add_news_item', async () => {
+      const rows = await this.query(
+        'insert',
+        'news_items',
+        'INSERT INTO news_items (summary, link, canonical_url, author, api_key_id, submitter_id, status) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING id',
+        [item.summary, item.link, item.canonical_url, item.author, item.api_key_id, item.submitter_id, item.status]
+      );
+      if (item.tags.length > 0) {
+        // Postgres types an uncast parameter in a select list as text
+        await this.query(
+          'insert',
+          'news_item_tags',
+          `INSERT INTO news_item_tags (news_item_id, tag_id)
+           SELECT CAST(? AS INTEGER), id FROM tags WHERE slug IN (${item.tags.map(() => '?').join(', ')})`,
+          [rows[0].id, ...item.tags]
+        );
+      }
+      return rows[0].id;
+    });
+  }
+
+  async getAllNewsItems(query: AdminNewsQuery = {}): Promise<NewsItem[]> {
+    const params: any[] = [];
+    let sql = 'SELECT * FROM news_items';
+    if (query.status) {
+      sql += ' WHERE status = ?';
+      params.push(query.status);
+    }
+    sql += ' ORDER BY vote_score DESC, created_at DESC, id DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(query.limit, query.offset || 0);
+    }
+    return this.query('select', 'news_items', sql, params);
+  }
+
+  async listNewsItems(sortType: SortType, options: NewsListOptions): Promise<NewsRow[]> {
+    if (sortType === 'top') {
+      return this.listHotNewsItems(options);
+    }
+
+    const conditions: string[] = ["status = 'published'"];
+    const params: any[] = [];
+
+    if (options.since) {
+      params.push(options.since);
+      conditions.push(this.dialectSql.createdAtOrAfter);
+    }
+    if (options.until) {
+      params.push(options.until);
+      conditions.push(this.dialectSql.createdBefore);
+    }
+    if (options.tag) {
+      params.push(options.tag);
+      conditions.push(TAGGED_WITH);
+    }
+    // Column names come from SCORE_COLUMNS, never from user input
+    const scoreColumn = SCORE_COLUMNS[options.by || 'blended'];
+    if (options.after) {
+      // Row-value comparison matches the ORDER BY below, so pages never overlap or skip rows
+      if (sortType === 'new') {
+        params.push(options.after.created_at, options.after.id);
+        conditions.push(`(created_at, id) < (${this.dialectSql.cursorCreatedAt}, ?)`);
+      } else {
+        params.push(options.after.score, options.after.created_at, options.after.id);
+        conditions.push(`(${scoreColumn}, created_at, id) < (?, ${this.dialectSql.cursorCreatedAt}, ?)`);
+      }
+    }
+
+    const orderBy = sortType === 'new' ? 'created_at DESC' : `${scoreColumn} DESC, created_at DESC`;
+
+    let sql = `
+      SELECT *, ${this.dialectSql.cursorKey} AS cursor_key FROM news_items
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy}, id DESC
+    `;
+    if (options.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset || 0);
+    }
+
+    return this.query('select', 'news_items', sql, params);
+  }
+
+  private async listHotNewsItems(options: NewsListOptions): Promise<NewsRow[]> {
+    const hot = options.hot;
+    if (!hot) {
+      throw new Error("The 'top' sort needs a hot ranking");
+    }
+
+    const conditions: string[] = ["status = 'published'", this.dialectSql.createdAtOrAfter];
+    const conditionParams: any[] = [windowStart(hot)];
+    if (options.since) {
+      conditionParams.push(options.since);
+      conditions.push(this.dialectSql.createdAtOrAfter);
+    }
+    if (options.until) {
+      conditionParams.push(options.until);
+      conditions.push(this.dialectSql.createdBefore);
+    }
+    if (options.tag) {
+      conditionParams.push(options.tag);
+      conditions.push(TAGGED_WITH);
+    }
+
+    const scoreColumn = SCORE_COLUMNS[options.by || 'blended'];
+    if (!this.hasMathFunctions) {
+      const rows = await this.query(
+        'select',
+        'news_items',
+        `SELECT *, ${this.dialectSql.cursorKey} AS cursor_key FROM news_items WHERE ${conditions.join(' AND ')}`,
+        conditionParams
+      );
+      const ranked = rankHot(rows as NewsRow[], hot, row => Number(row[scoreColumn]), options.after);
+      const offset = options.offset || 0;
+      return options.limit === undefined ? ranked.slice(offset) : ranked.slice(offset, offset + options.limit);
+    }
+
+    // Same formula as hotScore in ranking.ts
+    const float = this.dialectSql.floatParam;
+    const score = `${scoreColumn} / power(${this.dialectSql.hoursSince} + ${AGE_OFFSET_HOURS}, ${float})`;
+    const params: any[] = [hot.at, hot.gravity, ...conditionParams];
+
+    let sql = `
+      SELECT * FROM (
+        SELECT *, ${this.dialectSql.cursorKey} AS cursor_key, ${score} AS hot_score FROM news_items
+        WHERE ${conditions.join(' AND ')}
+      ) ranked
+    `;
+    if (options.after) {
+      params.push(options.after.hot_score, options.after.created_at, options.after.id);
+      sql += ` WHERE (hot_score, created_at, id) < (${float}, ${this.dialectSql.cursorCreatedAt}, ?)`;
+    }
+    sql += ' ORDER BY hot_score DESC, created_at DESC, id DESC';
+    if (options.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset || 0);
+    }
+
+    return this.query('select', 'news_items', sql, params);
+  }
+
+  async searchNewsItems(search: NewsSearch, options: { limit: number; offset: number }): Promise<NewsItem[]> {
+    const conditions: string[] = ["news_items.status = 'published'"];
+    const params: any[] = [];
+    let join = '';
+    let orderBy = 'news_items.created_at DESC';
+
+    if (search.terms.length > 0) {
+      // The query parameter sits in the join or the first condition, ahead of every other one
+      join = this.dialectSql.searchJoin;
+      conditions.push(this.dialectSql.searchMatch);
+      params.push(this.dialectSql.searchQuery(search.terms));
+      orderBy = `${this.dialectSql.searchRank} DESC, ${orderBy}`;
+    }
+    if (search.sites.length > 0) {
+      const domain = this.dialectSql.linkDomain;
+      conditions.push(`(${search.sites.map(() => `${domain} = ? OR ${domain} LIKE ?`).join(' OR ')})`);
+      search.sites.forEach(site => params.push(site, `%.${site}`));
+    }
+    if (search.authors.length > 0) {
+      conditions.push(`lower(news_items.author) IN (${search.authors.map(() => '?').join(', ')})`);
+      params.push(...search.authors);
+    }
+
+    const sql = `
+      SELECT news_items.* FROM news_items ${join}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${orderBy}, news_items.id DESC
+      LIMIT ? OFFSET ?
+    `;
+    return this.query('select', 'news_items', sql, [...params, options.limit, options.offset]);
+  }
+
+  async getNewsItemById(id: number): Promise<NewsItem | null> {
+    const rows = await this.query('select', 'news_items', 'SELECT * FROM news_items WHERE id = ?', [id]);
+    return rows[0] || null;
+  }
+
+  async findNewsItemByCanonicalUrl(canonicalUrl: string): Promise<NewsItem | null> {
+    const rows = await this.query('select', 'news_items', 'SELECT * FROM news_items WHERE canonical_url = ?', [canonicalUrl]);
+    return rows[0] || null;
+  }
+
+  async countNewsItemsSince(filter: SubmitterFilter, since: string): Promise<number> {
+    const [column, values]: [string, Array<string | number>] = 'submitterIds' in filter
+      ? ['submitter_id', filter.submitterIds]
+      : ['api_key_id', [filter.apiKeyId]];
+    const rows = await this.query(
+      'select',
+      'news_items',
+      `SELECT COUNT(*) AS n FROM news_items WHERE ${column} IN (${values.map(() => '?').join(', ')}) AND ${this.dialectSql.createdAtOrAfter}`,
+      [...values, since]
+    );
+    return Number(rows[0].n);
+  }
+
+  async setCanonicalUrl(id: number, canonicalUrl: string): Promise<void> {
+    await this.query('update', 'news_items', 'UPDATE news_items SET canonical_url = ? WHERE id = ?', [canonicalUrl, id]);
+  }
+
+  async setNewsItemStatus(id: number, status: NewsStatus): Promise<boolean> {
+    const rows = await this.query('update', 'news_items', 'UPDATE news_items SET status = ? WHERE id = ? RETURNING id', [status, id]);
+    return rows.length > 0;
+  }
+
+  async deleteNewsItem(id: number): Promise<boolean> {
+    return this.transaction('delete_news_item', async () => {
+      // SQLite doesn't enforce ON DELETE CASCADE unless foreign keys are switched on
+      await this.query('delete', 'votes', 'DELETE FROM votes WHERE news_item_id = ?', [id]);
+      await this.query('delete', 'flags', 'DELETE FROM flags WHERE news_item_id = ?', [id]);
+      await this.query('delete', 'news_item_tags', 'DELETE FROM news_item_tags WHERE news_item_id = ?', [id]);
+      await this.query('delete', 'comments', 'DELETE FROM comments WHERE news_item_id = ?', [id]);
+      const rows = await this.query('delete', 'news_items', 'DELETE FROM news_items WHERE id = ? RETURNING id', [id]);
+      return rows.length > 0;
+    });
+  }
+
+  async addFlag(flag: NewFlag): Promise<boolean> {
+    const rows = await this.query(
+      'insert',
+      'flags',
+      `INSERT INTO flags (news_item_id, reason, details, reporter_id) VALUES (?, ?, ?, ?)
+       ON CONFLICT (news_item_id, reporter_id) DO NOTHING RETURNING id`,
+      [flag.news_item_id, flag.reason, flag.details, flag.reporter_id]
+    );
+    return rows.length > 0;
+  }
+
+  async getFlags(newsItemId: number): Promise<Flag[]> {
+    const rows = await this.query('select', 'flags', 'SELECT * FROM flags WHERE news_item_id = ? ORDER BY created_at, id', [newsItemId]);
+    return rows.map(toFlag);
+  }
+
+  async listFlaggedItems(options: { limit: number; offset: number }): Promise<FlaggedItem[]> {
+    const items = await this.query('select', 'news_items', `
+      SELECT news_items.*, COUNT(flags.id) AS open_flags, MAX(flags.created_at) AS last_flagged_at
+      FROM news_items
+      JOIN flags ON flags.news_item_id = news_items.id AND flags.resolved_at IS NULL
+      WHERE news_items.status <> 'deleted'
+      GROUP BY news_items.id
+      ORDER BY open_flags DESC, last_flagged_at DESC, news_items.id DESC
+      LIMIT ? OFFSET ?
+    `, [options.limit, options.offset]);
+    if (items.length === 0) {
+      return [];
+    }
+
+    const ids = items.map(item => Number(item.id));
+    const reasonRows = await this.query('select', 'flags', `
+      SELECT news_item_id, reason, COUNT(*) AS n FROM flags
+      WHERE resolved_at IS NULL AND news_item_id IN (${ids.map(() => '?').join(', ')})
+      GROUP BY news_item_id, reason
+    `, ids);
+
+    return items.map(item => {
+      const flag_reasons: Partial<Record<FlagReason, number>> = {};
+      reasonRows
+        .filter(row => Number(row.news_item_id) === Number(item.id))
+        .forEach(row => { flag_reasons[row.reason as FlagReason] = Number(row.n); });
+      return { ...item, open_flags: Number(item.open_flags), flag_reasons };
+    });
+  }
+
+  async resolveFlags(newsItemId: number): Promise<number> {
+    const rows = await this.query(
+      'update',
+      'flags',
+      'UPDATE flags SET resolved_at = CURRENT_TIMESTAMP WHERE news_item_id = ? AND resolved_at IS NULL RETURNING id',
+      [newsItemId]
+    );
+    return rows.length;
+  }
+
+  // The news_items row is locked first, so concurrent votes on the same item
+  // apply one at a time and the counters always match the votes table
+  async updateVote(
+    newsItemId: number,
+    voter: Voter,
+    decide: (previous: 'up' | 'down' | null) => 'up' | 'down' | null
+  ): Promise<VoteChange | null> {
+    return this.transaction('vote', async () => {
+      const item = await this.query('select', 'news_items', this.dialectSql.lockNewsItem, [newsItemId]);
+      if (item.length === 0 || item[0].status !== 'published') {
+        return null;
+      }
+
+      const voterIds = [voter.id, ...(voter.previousIds || [])];
+      const existingVote = await this.query(
+        'select',
+        'votes',
+        `SELECT id, vote_type FROM votes WHERE news_item_id = ? AND vote_source = ? AND voter_ip IN (${voterIds.map(() => '?').join(', ')})`,
+        [newsItemId, voter.source, ...voterIds]
+      );
+      const previous: 'up' | 'down' | null = existingVote.length > 0 ? existingVote[0].vote_type : null;
+      const current = decide(previous);
+
+      if (previous === current) {
+        return { previous, current }; // Same vote, no change
+      }
+
+      if (current === null) {
+        await this.query('delete', 'votes', 'DELETE FROM votes WHERE id = ?', [existingVote[0].id]);
+      } else if (previous) {
+        // Moves a vote stored under an earlier salt over to the voter's current id
+        await this.query(
+          'update',
+          'votes',
+          'UPDATE votes SET vote_type = ?, voter_ip = ?, api_key_id = ?, created_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [current, voter.id, voter.apiKeyId ?? null, existingVote[0].id]
+        );
+      } else {
+        await this.query(
+          'insert',
+          'votes',
+          'INSERT INTO votes (news_item_id, vote_type, voter_ip, vote_source, api_key_id) VALUES (?, ?, ?, ?, ?)',
+          [newsItemId, current, voter.id, voter.source, voter.apiKeyId ?? null]
+        );
+      }
+
+      await this.applyVoteDelta(newsItemId, voter.source, previous, current);
+      return { previous, current };
+    });
+  }
+
+  async getVotes(newsItemId: number, options: { limit: number; offset: number }): Promise<Vote[]> {
+    return this.query(
+      'select',
+      'votes',
+      'SELECT * FROM votes WHERE news_item_id = ? ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?',
+      [newsItemId, options.limit, options.offset]
+    );
+  }
+
+  // Moves one vote between counters; from/to of null mean "no vote"
+  private async applyVoteDelta(
+    newsItemId: number,
+    voteSource: 'human' | 'machine',
+    from: 'up' | 'down' | null,
+    to: 'up' | 'down' | null
+  ): Promise<void> {
+    const up = (to === 'up' ? 1 : 0) - (from === 'up' ? 1 : 0);
+    const down = (to === 'down' ? 1 : 0) - (from === 'down' ? 1 : 0);
+    const net = up - down;
+    // Column names come from the vote_source union, never from user input
+    const upColumn = `${voteSource}_upvotes`;
+    const downColumn = `${voteSource}_downvotes`;
+    const scoreColumn = `${voteSource}_score`;
+    // SET expressions see the old row, so the blended score adds the deltas itself
+    const [humanDelta, machineDelta] = voteSource === 'human' ? [net, 0] : [0, net];
+
+    await this.query(
+      'update',
+      'news_items',
+      `UPDATE news_items SET
+        ${upColumn} = ${upColumn} + ?,
+        ${downColumn} = ${downColumn} + ?,
+        vote_score = vote_score + ?,
+        ${scoreColumn} = ${scoreColumn} + ?,
+        blended_score = ${this.blendedScoreSql('human_score + ?', 'machine_score + ?')}
+      WHERE id = ?`,
+      [up, down, net, net, this.scoreWeights.human, humanDelta, this.scoreWeights.machine, machineDelta, newsItemId]
+    );
+  }
+
+  async getVoteCountRows(newsItemIds: number[]): Promise<VoteCountRow[]> {
+    const rows = await this.query('select', 'news_items', `
+      SELECT id, human_upvotes, human_downvotes, machine_upvotes, machine_downvotes
+      FROM news_items
+      WHERE id IN (${newsItemIds.map(() => '?').join(', ')})
+    `, newsItemIds);
+
+    return rows.map(row => ({
+      news_item_id: Number(row.id),
+      human_upvotes: Number(row.human_upvotes),
+      human_downvotes: Number(row.human_downvotes),
+      machine_upvotes: Number(row.machine_upvotes),
+      machine_downvotes: Number(row.machine_downvotes)
+    }));
+  }
+
+  async addComment(comment: NewComment): Promise<Comment> {
+    return this.transaction('add_comment', async () => {
+      const rows = await this.query(
+        'insert',
+        'comments',
+        `INSERT INTO comments (news_item_id, parent_id, depth, body, author, comment_source, commenter_id, api_key_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`,
+        [
+          comment.news_item_id,
+          comment.parent_id,
+          comment.depth,
+          comment.body,
+          comment.author,
+          comment.comment_source,
+          comment.commenter_id,
+          comment.api_key_id
+        ]
+      );
+      await this.query('update', 'news_items', 'UPDATE news_items SET comment_count = comment_count + 1 WHERE id = ?', [comment.news_item_id]);
+      if (comment.parent_id !== null) {
+        await this.query('update', 'comments', 'UPDATE comments SET reply_count = reply_count + 1 WHERE id = ?', [comment.parent_id]);
+      }
+      return toComment(rows[0]);
+    });
+  }
+
+  async getComment(id: number): Promise<Comment | null> {
+    const rows = await this.query('select', 'comments', 'SELECT * FROM comments WHERE id = ?', [id]);
+    return rows[0] ? toComment(rows[0]) : null;
+  }
+
+  async listComments(newsItemId: number, parentId: number | null, options: { limit: number; offset: number }): Promise<Comment[]> {
+    const [parentCondition, params] = parentId === null
+      ? ['parent_id IS NULL', [newsItemId]]
+      : ['parent_id = ?', [newsItemId, parentId]];
+    const rows = await this.query(
+      'select',
+      'comments',
+      `SELECT * FROM comments WHERE news_item_id = ? AND ${parentCondition} ORDER BY created_at, id LIMIT ? OFFSET ?`,
+      [...params, options.limit, options.offset]
+    );
+    return rows.map(toComment);
+  }
+
+  async deleteComment(id: number): Promise<boolean> {
+    return this.transaction('delete_comment', async () => {
+      const rows = await this.query(
+        'update',
+        'comments',
+        "UPDATE comments SET status = 'deleted' WHERE id = ? AND status = 'published' RETURNING news_item_id",
+        [id]
+      );
+      if (rows.length === 0) {
+        return false;
+      }
+      // The parent's reply_count stays: the comment remains in the thread as a placeholder
+      await this.query('update', 'news_items', 'UPDATE news_items SET comment_count = comment_count - 1 WHERE id = ?', [rows[0].news_item_id]);
+      return true;
+    });
+  }
+
+  async listTags(): Promise<Tag[]> {
+    const rows = await this.query('select', 'tags', 'SELECT * FROM tags ORDER BY label, id');
+    return rows.map(toTag);
+  }
+
+  async createTag(tag: NewTag): Promise<Tag> {
+    const rows = await this.query('insert', 'tags', 'INSERT INTO tags (slug, label) VALUES (?, ?) RETURNING *', [tag.slug, tag.label]);
+    return toTag(rows[0]);
+  }
+
+  async deleteTag(slug: string): Promise<boolean> {
+    return this.transaction('delete_tag', async () => {
+      // SQLite doesn't enforce ON DELETE CASCADE unless foreign keys are switched on
+      await this.query(
+        'delete',
+        'news_item_tags',
+        'DELETE FROM news_item_tags WHERE tag_id IN (SELECT id FROM tags WHERE slug = ?)',
+        [slug]
+      );
+      const rows = await this.query('delete', 'tags', 'DELETE FROM tags WHERE slug = ? RETURNING id', [slug]);
+      return rows.length > 0;
+    });
+  }
+
+  async getItemTagRows(newsItemIds: number[]): Promise<ItemTagRow[]> {
+    const rows = await this.query('select', 'news_item_tags', `
+      SELECT news_item_tags.news_item_id, tags.slug FROM news_item_tags
+      JOIN tags ON tags.id = news_item_tags.tag_id
+      WHERE news_item_tags.news_item_id IN (${newsItemIds.map(() => '?').join(', ')})
+      ORDER BY tags.label, tags.id
+    `, newsItemIds);
+
+    return rows.map(row => ({ news_item_id: Number(row.news_item_id), slug: row.slug }));
+  }
+}
@@ -0,0 +1,99 @@
+import sqlite3 from 'sqlite3';
+import path from 'path';
+import { logger } from '../telemetry';
+import { SqlNewsStore, QueryResult, DialectSql } from './sqlStore';
+
+const SQLITE_BUSY_TIMEOUT_MS = 5000;
+
+export class SqliteNewsStore extends SqlNewsStore {
+  readonly type = 'sqlite' as const;
+  protected readonly dialectSql: DialectSql = {
+    // Normalises ISO 8601 input ('...T...Z') to SQLite's 'YYYY-MM-DD HH:MM:SS'
+    createdAtOrAfter: 'datetime(created_at) >= datetime(?)',
+    createdBefore: 'datetime(created_at) < datetime(?)',
+    cursorCreatedAt: '?',
+    cursorKey: 'created_at',
+    hoursSince: 'MAX((julianday(?) - julianday(created_at)) * 24, 0)',
+    floatParam: '?',
+    // char(63) is '?', spelled out like the PostgreSQL version
+    linkDomain: "substr(news_items.canonical_url, 1, instr(replace(news_items.canonical_url, char(63), '/') || '/', '/') - 1)",
+    searchJoin: 'JOIN news_search ON news_search.rowid = news_items.id',
+    searchMatch: 'news_search MATCH ?',
+    // bm25 is lower for better matches; summary hits count most, then author, then domain
+    searchRank: '-bm25(news_search, 10.0, 5.0, 2.0)',
+    // Every term as a quoted prefix query, all required
+    searchQuery: terms => terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' '),
+    // Takes the write lock up front so a second process (e.g. the MCP stdio server)
+    // can't deadlock us on a read-to-write upgrade
+    beginTransaction: 'BEGIN IMMEDIATE',
+    // The whole transaction already runs alone on this store's single connection
+    lockNewsItem: 'SELECT id, status FROM news_items WHERE id = ?',
+    lockRateLimitBucket: 'SELECT tokens, updated_at, expires_at FROM rate_limit_buckets WHERE bucket_key = ?'
+  };
+
+  private db: sqlite3.Database;
+  // There is only one connection, so transactions are queued and statements
+  // from outside the running transaction wait for it to finish
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filename: string = path.join(process.cwd(), 'agentic_news.db')) {
+    super();
+    this.db = new sqlite3.Database(filename);
+    this.db.configure('busyTimeout', SQLITE_BUSY_TIMEOUT_MS);
+  }
+
+  async connect(): Promise<void> {
+    // sqlite3 opens the file in the constructor and queues statements until it is ready.
+    // power() only exists when SQLite was built with math functions.
+    try {
+      await this.execute('SELECT power(2, 2)');
+    } catch (error) {
+      this.hasMathFunctions = false;
+      logger.info('SQLite has no math functions; the top sort is ranked in JS');
+    }
+  }
+
+  protected async execute(sql: string, params: any[] = []): Promise<QueryResult> {
+    await this.waitForTransactions();
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ rows });
+        }
+      });
+    });
+  }
+
+  protected async executeScript(sql: string): Promise<void> {
+    await this.waitForTransactions();
+    return new Promise((resolve, reject) => {
+      this.db.exec(sql, err => err ? reject(err) : resolve());
+    });
+  }
+
+  protected withTransactionConnection<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.transactionQueue.then(fn);
+    this.transactionQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async waitForTransactions(): Promise<void> {
+    if (!this.transactionScope.getStore()) {
+      await this.transactionQueue;
+    }
+  }
+
+  protected async tableExists(table: string): Promise<boolean> {
+    const { rows } = await this.execute("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", [table]);
+    return rows.length > 0;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.db.close(err => err ? reject(err) : resolve());
+    });
+    logger.info('SQLite connection closed');
+  }
+}
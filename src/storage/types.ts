@@ -0,0 +1,332 @@
+import { SortType, NewsCursor } from '../cursor';
+import { MigrationExecutor } from '../migrator';
+import { HotRanking, ScoreBasis, ScoreWeights } from '../ranking';
+import { NewsSearch } from '../search';
+
+// Only 'published' items appear in feeds. 'pending' items await review, 'hidden'
+// ones were taken down by a moderator and 'deleted' is a soft delete.
+export type NewsStatus = 'pending' | 'published' | 'hidden' | 'deleted';
+
+export const NEWS_STATUSES: NewsStatus[] = ['pending', 'published', 'hidden', 'deleted'];
+
+export type FlagReason = 'spam' | 'off_topic' | 'broken_link' | 'duplicate' | 'abuse' | 'other';
+
+export const FLAG_REASONS: FlagReason[] = ['spam', 'off_topic', 'broken_link', 'duplicate', 'abuse', 'other'];
+
+export interface NewsItem {
+  id: number;
+  summary: string;
+  link: string;
+  author: string;
+  created_at: string;
+  vote_score: number;
+  status?: NewsStatus;
+  human_upvotes?: number;
+  human_downvotes?: number;
+  machine_upvotes?: number;
+  machine_downvotes?: number;
+  // Net votes per source and the two blended by the store's ScoreWeights; feeds sort on these
+  human_score?: number;
+  machine_score?: number;
+  blended_score?: number;
+  // Set when the item was submitted with an API key
+  api_key_id?: number | null;
+  // Hashed client IP or key:<key id>, like a voter id; null on rows from before migration 013
+  submitter_id?: string | null;
+  // Duplicate-detection key, see canonicalizeLink; null on rows that predate it
+  canonical_url?: string | null;
+  // Tag slugs, filled in by DatabaseManager.attachItemDetails
+  tags?: string[];
+  // Published comments, replies included
+  comment_count?: number;
+}
+
+export interface NewNewsItem {
+  summary: string;
+  link: string;
+  canonical_url: string;
+  author: string;
+  api_key_id: number | null;
+  submitter_id: string | null;
+  status: NewsStatus;
+  // Slugs of existing tags; unknown ones are skipped
+  tags: string[];
+}
+
+export interface Tag {
+  id: number;
+  slug: string;
+  label: string;
+  created_at: string;
+}
+
+export type NewTag = Pick<Tag, 'slug' | 'label'>;
+
+export interface VoteCounts {
+  human_upvotes: number;
+  human_downvotes: number;
+  machine_upvotes: number;
+  machine_downvotes: number;
+}
+
+// Voter ids stripped by the retention job become this prefix plus the row id, which
+// keeps them unique per row without saying anything about who voted
+export const EXPIRED_VOTER_PREFIX = 'expired:';
+
+export interface Vote {
+  id: number;
+  news_item_id: number;
+  vote_type: 'up' | 'down';
+  voter_ip: string;
+  vote_source: 'human' | 'machine';
+  api_key_id?: number | null;
+  created_at: string;
+}
+
+// Who is voting: votes are deduplicated per (item, id, source). Machine voters are
+// identified by their API key, humans by a keyed hash of their client IP (see voterIdentity).
+export interface Voter {
+  id: string;
+  source: 'human' | 'machine';
+  apiKeyId?: number | null;
+  // Ids the same voter had under earlier salts; a vote stored under one of them is theirs
+  previousIds?: string[];
+}
+
+export type ApiKeyScope = 'vote' | 'submit' | 'comment' | 'moderate';
+
+export interface ApiKey {
+  id: number;
+  // Public part of the key, safe to log and show in listings
+  key_id: string;
+  owner: string;
+  agent_name: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ApiKeyRecord extends ApiKey {
+  key_hash: string;
+}
+
+export type NewApiKey = Pick<ApiKeyRecord, 'key_id' | 'key_hash' | 'owner' | 'agent_name' | 'scopes'>;
+
+export interface Flag {
+  id: number;
+  news_item_id: number;
+  reason: FlagReason;
+  details: string | null;
+  // Same identity votes use: hashed client IP for people, key:<key id> for API keys
+  reporter_id: string;
+  created_at: string;
+  // Set once a moderator has acted on the item
+  resolved_at: string | null;
+}
+
+export type NewFlag = Pick<Flag, 'news_item_id' | 'reason' | 'details' | 'reporter_id'>;
+
+// An item with unresolved flags, as listed in the moderation queue
+export type FlaggedItem = NewsItem & {
+  open_flags: number;
+  flag_reasons: Partial<Record<FlagReason, number>>;
+  last_flagged_at: string;
+};
+
+export type CommentStatus = 'published' | 'deleted';
+
+export interface Comment {
+  id: number;
+  news_item_id: number;
+  // Null for a top-level comment
+  parent_id: number | null;
+  // Number of ancestors: 0 for top-level comments
+  depth: number;
+  body: string;
+  author: string;
+  comment_source: 'human' | 'machine';
+  // Same identity votes use: hashed client IP for people, key:<key id> for API keys
+  commenter_id: string;
+  api_key_id: number | null;
+  status: CommentStatus;
+  // Direct replies, deleted ones included since they keep their place in the thread
+  reply_count: number;
+  created_at: string;
+}
+
+export type NewComment = Pick<
+  Comment,
+  'news_item_id' | 'parent_id' | 'depth' | 'body' | 'author' | 'comment_source' | 'commenter_id' | 'api_key_id'
+>;
+
+// A voter's vote before and after a write; null means no vote
+export interface VoteChange {
+  previous: 'up' | 'down' | null;
+  current: 'up' | 'down' | null;
+}
+
+export interface NewsQueryOptions {
+  limit?: number;
+  offset?: number;
+  // ISO 8601 bounds on created_at: since is inclusive, until is exclusive
+  since?: string;
+  until?: string;
+  // Score column 'top' and 'classic' rank by; defaults to 'blended'
+  by?: ScoreBasis;
+  // Only items with this tag (slug)
+  tag?: string;
+}
+
+export interface NewsListOptions extends NewsQueryOptions {
+  // Only rows strictly after this position in the sort order
+  after?: NewsCursor;
+  // Required for the 'top' sort
+  hot?: HotRanking;
+}
+
+// A listed row plus the exact created_at text used to build the next cursor;
+// 'top' listings also carry the score they were ranked by
+export type NewsRow = NewsItem & { cursor_key: string; hot_score?: number };
+
+export type VoteCountRow = VoteCounts & { news_item_id: number };
+
+export interface ItemTagRow {
+  news_item_id: number;
+  slug: string;
+}
+
+export interface AdminNewsQuery {
+  status?: NewsStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// Whose submissions to count: everything from one submitter (any of their ids) or from one API key
+export type SubmitterFilter = { submitterIds: string[] } | { apiKeyId: number };
+
+// Which votes to purge: everything from one voter (any of their ids) or from one API key
+export type VotePurgeFilter = { voterIds: string[] } | { apiKeyId: number };
+
+export interface BoardStats {
+  news_items: Record<NewsStatus, number> & { total: number };
+  votes: VoteCounts & { total: number };
+  api_keys: { active: number; revoked: number };
+  flags: { open: number; resolved: number };
+  comments: Record<CommentStatus, number>;
+  // Published items per tag slug, every tag included
+  tags: Record<string, number>;
+}
+
+// Token bucket state for one rate-limit key; times are epoch milliseconds
+export interface RateLimitBucket {
+  tokens: number;
+  updated_at: number;
+  // When the bucket will be full again; the row can be dropped after that
+  expires_at: number;
+}
+
+export type StoreType = 'sqlite' | 'postgresql' | 'memory';
+
+export interface PoolStats {
+  total: number;
+  idle: number;
+  active: number;
+  // Callers queued for a free connection
+  waiting: number;
+}
+
+export interface StoreHealth {
+  backend: StoreType;
+  latency_ms: number;
+  pool?: PoolStats;
+}
+
+// Storage backend behind DatabaseManager. Implementations own their connection
+// and trace every query through DatabaseLogger.
+export interface NewsStore {
+  readonly type: StoreType;
+  connect(): Promise<void>;
+  // Null for backends without a schema (the in-memory store)
+  getMigrationExecutor(): MigrationExecutor | null;
+  // Inserts the item and its tags together. Rejects with the backend's unique-constraint
+  // error when canonical_url is taken.
+  addNewsItem(item: NewNewsItem): Promise<number>;
+  // Every item regardless of status, for administration
+  getAllNewsItems(query?: AdminNewsQuery): Promise<NewsItem[]>;
+  // Published items only. 'top' ranks items inside the hot window by hotScore (see ranking.ts)
+  listNewsItems(sortType: SortType, options: NewsListOptions): Promise<NewsRow[]>;
+  // Published items matching the search, most relevant first (newest first when there
+  // are only filters); see search.ts
+  searchNewsItems(search: NewsSearch, options: { limit: number; offset: number }): Promise<NewsItem[]>;
+  getNewsItemById(id: number): Promise<NewsItem | null>;
+  findNewsItemByCanonicalUrl(canonicalUrl: string): Promise<NewsItem | null>;
+  // Items in any status created at or after since (ISO 8601)
+  countNewsItemsSince(filter: SubmitterFilter, since: string): Promise<number>;
+  setCanonicalUrl(id: number, canonicalUrl: string): Promise<void>;
+  setNewsItemStatus(id: number, status: NewsStatus): Promise<boolean>;
+  // Removes the item, its votes, flags, tags and comments for good; resolves false when it doesn't exist
+  deleteNewsItem(id: number): Promise<boolean>;
+  // Resolves false when this reporter already flagged the item
+  addFlag(flag: NewFlag): Promise<boolean>;
+  // Oldest first
+  getFlags(newsItemId: number): Promise<Flag[]>;
+  // Items with open flags that haven't been deleted, most flagged first
+  listFlaggedItems(options: { limit: number; offset: number }): Promise<FlaggedItem[]>;
+  // Marks the item's open flags resolved; resolves the number updated
+  resolveFlags(newsItemId: number): Promise<number>;
+  // Replaces the voter's vote with whatever decide() returns for their current one
+  // (null clears it). Resolves null when there is no published item to vote on.
+  updateVote(
+    newsItemId: number,
+    voter: Voter,
+    decide: (previous: 'up' | 'down' | null) => 'up' | 'down' | null
+  ): Promise<VoteChange | null>;
+  // Newest first
+  getVotes(newsItemId: number, options: { limit: number; offset: number }): Promise<Vote[]>;
+  getVoteCountRows(newsItemIds: number[]): Promise<VoteCountRow[]>;
+  // Adds the comment and bumps the item's comment_count and the parent's reply_count
+  addComment(comment: NewComment): Promise<Comment>;
+  getComment(id: number): Promise<Comment | null>;
+  // Direct replies to parentId (top-level comments for null), deleted ones included, oldest first
+  listComments(newsItemId: number, parentId: number | null, options: { limit: number; offset: number }): Promise<Comment[]>;
+  // Soft delete that takes the comment off its item's comment_count; resolves false when it
+  // isn't published
+  deleteComment(id: number): Promise<boolean>;
+  // Sorted by label
+  listTags(): Promise<Tag[]>;
+  // Rejects with the backend's unique-constraint error when the slug is taken
+  createTag(tag: NewTag): Promise<Tag>;
+  // Also untags every item; resolves false when the tag doesn't exist
+  deleteTag(slug: string): Promise<boolean>;
+  // Each item's tags, by label within an item
+  getItemTagRows(newsItemIds: number[]): Promise<ItemTagRow[]>;
+  // Deletes the matching votes and fixes up the affected items' counters; resolves the number removed
+  purgeVotes(filter: VotePurgeFilter): Promise<number>;
+  // Rebuilds counters and scores from the votes table; resolves the number of items updated
+  recomputeVoteCounters(newsItemIds?: number[]): Promise<number>;
+  // Weights for blended_score from now on; call rescoreBlended to apply them to existing rows
+  setScoreWeights(weights: ScoreWeights): void;
+  // Recomputes blended_score wherever it differs under the current weights; resolves the number of items changed
+  rescoreBlended(): Promise<number>;
+  // Replaces the voter ids of human votes, flags, comments and submissions from people
+  // created before `before` (ISO 8601) with expired:<row id>; the rows and counters stay
+  expireVoterIds(before: string): Promise<{ votes: number; flags: number; comments: number; submissions: number }>;
+  getStats(): Promise<BoardStats>;
+  createApiKey(key: NewApiKey): Promise<ApiKey>;
+  // Includes revoked keys; callers check revoked_at
+  findApiKey(keyId: string): Promise<ApiKeyRecord | null>;
+  listApiKeys(): Promise<ApiKey[]>;
+  // Resolves false when the key doesn't exist or was already revoked
+  revokeApiKey(keyId: string): Promise<boolean>;
+  touchApiKey(id: number): Promise<void>;
+  // Stores whatever update() returns for the current bucket (null when there is none),
+  // holding the row against concurrent updates. update() must be pure: it can be
+  // called more than once and only the last result is stored.
+  updateRateLimitBucket(key: string, update: (current: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket>;
+  // Deletes buckets that are full again by now; resolves the number removed
+  evictRateLimitBuckets(now: number): Promise<number>;
+  // Round-trips to the backend; rejects when it is unreachable
+  healthCheck(): Promise<StoreHealth>;
+  close(): Promise<void>;
+}
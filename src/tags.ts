@@ -0,0 +1,40 @@
+// Topic tags. The taxonomy is curated (migration 011 seeds it, `admin tags:add` extends
+// it); submissions pick up to MAX_TAGS_PER_ITEM of them, and the first one they list is
+// the item's category in metrics.
+
+export const MAX_TAGS_PER_ITEM = 3;
+
+// Lowercase words joined by single hyphens, e.g. 'open-source'
+export const TAG_SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const MAX_TAG_SLUG_LENGTH = 30;
+export const MAX_TAG_LABEL_LENGTH = 50;
+
+// Metrics label for items submitted without tags
+export const UNCATEGORIZED = 'uncategorized';
+
+export function isTagSlug(value: string): boolean {
+  return value.length <= MAX_TAG_SLUG_LENGTH && TAG_SLUG_PATTERN.test(value);
+}
+
+// Tags as a JSON array or a comma-separated string (form fields send one string per
+// checkbox); lowercased and deduplicated, keeping the submitter's order. Null when the
+// value isn't strings at all.
+export function parseTagList(value: unknown): string[] | null {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const entries = Array.isArray(value) ? value : [value];
+  if (!entries.every(entry => typeof entry === 'string')) {
+    return null;
+  }
+
+  const tags = (entries as string[])
+    .flatMap(entry => entry.split(','))
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function newsCategory(tags: string[]): string {
+  return tags[0] || UNCATEGORIZED;
+}
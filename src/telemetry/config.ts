@@ -1,5 +1,3 @@
-import { logger } from './logger';
-
 export interface TelemetryConfig {
   enabled: boolean;
   logging: {
@@ -125,7 +123,7 @@ const minimalSafeConfig: TelemetryConfig = {
   logging: {
     enabled: true,
     level: 'error', // Only log errors
-    console: false,
+    console: true, // ...to stdout, where hosting platforms collect them
     files: false,
     sensitiveDataRedaction: true
   },
@@ -165,7 +163,7 @@ class TelemetryConfiguration {
   private config: TelemetryConfig;
 
   private constructor() {
-    this.config = this.loadConfig();
+    this.config = this.applyEnvOverrides(this.loadConfig());
   }
 
   static getInstance(): TelemetryConfiguration {
@@ -214,6 +212,22 @@ class TelemetryConfiguration {
     }
   }
 
+  // LOG_LEVEL and OTLP_ENABLED refine whichever preset was picked
+  private applyEnvOverrides(config: TelemetryConfig): TelemetryConfig {
+    const level = process.env.LOG_LEVEL as TelemetryConfig['logging']['level'] | undefined;
+    return {
+      ...config,
+      logging: {
+        ...config.logging,
+        level: level && ['error', 'warn', 'info', 'debug'].includes(level) ? level : config.logging.level
+      },
+      tracing: {
+        ...config.tracing,
+        otlpEnabled: config.tracing.otlpEnabled || process.env.OTLP_ENABLED === 'true'
+      }
+    };
+  }
+
   getConfig(): TelemetryConfig {
     return { ...this.config };
   }
@@ -239,14 +253,44 @@ class TelemetryConfiguration {
     return this.config.enabled && this.config.tracing.enabled;
   }
 
+  // The health check stays up with telemetry disabled; platforms probe it
   isEndpointEnabled(endpoint: keyof TelemetryConfig['endpoints']): boolean {
+    if (endpoint === 'health') {
+      return this.config.endpoints.health;
+    }
     return this.config.enabled && this.config.endpoints[endpoint];
   }
 
+  // Security features protect the app rather than observe it, so they don't
+  // depend on telemetry being enabled
+  isSecurityFeatureEnabled(feature: keyof TelemetryConfig['security']): boolean {
+    return this.config.security[feature];
+  }
+
+  isErrorTrackingEnabled(): boolean {
+    return this.config.enabled && this.config.errorTracking.enabled;
+  }
+
+  isAlertingEnabled(): boolean {
+    return this.isErrorTrackingEnabled() && this.config.errorTracking.alerting;
+  }
+
+  isBusinessMetricsEnabled(): boolean {
+    return this.isMetricsEnabled() && this.config.metrics.businessMetrics;
+  }
+
+  isPerformanceMonitoringEnabled(): boolean {
+    return this.config.enabled && this.config.performance.monitoring;
+  }
+
   getLogLevel(): string {
     return this.config.logging.level;
   }
 
+  isRedactionEnabled(): boolean {
+    return this.config.logging.sensitiveDataRedaction;
+  }
+
   getSlowQueryThreshold(): number {
     return this.config.performance.slowQueryThreshold;
   }
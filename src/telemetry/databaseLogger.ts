@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { telemetryConfig } from './config';
 import { metrics } from './metrics';
 import { tracing } from './tracing';
 import { SpanKind } from '@opentelemetry/api';
@@ -12,7 +13,7 @@ export class DatabaseLogger {
     params?: any[],
     options?: {
       table?: string;
-      dbType?: 'sqlite' | 'postgresql';
+      dbType?: 'sqlite' | 'postgresql' | 'memory';
     }
   ): { queryId: string; startTime: number } {
     const queryId = `query_${++this.queryCounter}_${Date.now()}`;
@@ -36,7 +37,7 @@ export class DatabaseLogger {
       rows?: number;
       error?: any;
       table?: string;
-      dbType?: 'sqlite' | 'postgresql';
+      dbType?: 'sqlite' | 'postgresql' | 'memory';
     }
   ) {
     const duration = Date.now() - startTime;
@@ -61,11 +62,12 @@ export class DatabaseLogger {
       metrics.recordDbQuery('success', options?.table || 'unknown', duration, options?.dbType);
     }
 
-    if (duration > 1000) {
+    const threshold = telemetryConfig.getSlowQueryThreshold();
+    if (duration > threshold) {
       logger.warn('Slow query detected', {
         queryId,
         duration,
-        threshold: 1000,
+        threshold,
         table: options?.table
       });
     }
@@ -77,7 +79,7 @@ export class DatabaseLogger {
     fn: () => Promise<T>,
     options?: {
       table?: string;
-      dbType?: 'sqlite' | 'postgresql';
+      dbType?: 'sqlite' | 'postgresql' | 'memory';
       params?: any[];
     }
   ): Promise<T> {
@@ -130,7 +132,7 @@ export class DatabaseLogger {
     name: string,
     fn: () => Promise<T>,
     options?: {
-      dbType?: 'sqlite' | 'postgresql';
+      dbType?: 'sqlite' | 'postgresql' | 'memory';
     }
   ): Promise<T> {
     return tracing.traceAsync(
@@ -210,6 +212,7 @@ export class DatabaseLogger {
     active: number;
     idle: number;
     total: number;
+    waiting?: number;
     dbType: 'sqlite' | 'postgresql';
   }) {
     logger.debug('Connection pool stats', stats);
@@ -228,6 +231,13 @@ export class DatabaseLogger {
       { state: 'total', database_type: stats.dbType },
       stats.total
     );
+
+    if (stats.waiting !== undefined) {
+      metrics.dbConnectionPool.set(
+        { state: 'waiting', database_type: stats.dbType },
+        stats.waiting
+      );
+    }
   }
 
   static logMigration(name: string, status: 'started' | 'completed' | 'failed', error?: any) {
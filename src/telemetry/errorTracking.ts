@@ -2,6 +2,9 @@ import { logger } from './logger';
 import { metrics } from './metrics';
 import { tracing } from './tracing';
 import { Request } from 'express';
+import { getClientIp } from '../clientIp';
+import { telemetryConfig } from './config';
+import { getRedactor } from './redaction';
 
 export interface ErrorContext {
   requestId?: string;
@@ -217,6 +220,9 @@ export class ErrorTracker {
   }
 
   private sendAlert(error: TrackedError) {
+    if (!telemetryConfig.isAlertingEnabled()) {
+      return;
+    }
     logger.error(`ALERT: ${error.severity.toUpperCase()} error detected`, undefined, {
       errorId: error.id,
       name: error.name,
@@ -294,8 +300,10 @@ export class ErrorTracker {
     logger.info(`Cleared ${resolved.length} resolved errors`);
   }
 
+  // Tracked errors are served from /errors as well as logged, so the context is
+  // redacted here rather than only on its way through the logger
   extractRequestContext(req: Request): ErrorContext {
-    return {
+    const context: ErrorContext = {
       method: req.method,
       path: req.path,
       query: req.query,
@@ -305,12 +313,11 @@ export class ErrorTracker {
         'content-type': req.headers['content-type'],
         'accept': req.headers['accept']
       },
-      ip: (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 
-          req.connection.remoteAddress || 
-          req.socket.remoteAddress,
+      ip: getClientIp(req),
       userAgent: req.headers['user-agent'],
       timestamp: new Date().toISOString()
     };
+    return telemetryConfig.isRedactionEnabled() ? getRedactor().redact(context) : context;
   }
 
   getStatistics() {
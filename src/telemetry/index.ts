@@ -4,8 +4,10 @@ export { metrics } from './metrics';
 export { errorTracker } from './errorTracking';
 export * from './middleware';
 export { DatabaseLogger } from './databaseLogger';
+export { telemetryConfig } from './config';
 
 import { logger } from './logger';
+import { telemetryConfig } from './config';
 import { tracing } from './tracing';
 import { metrics } from './metrics';
 import { errorTracker } from './errorTracking';
@@ -14,9 +16,6 @@ export class TelemetrySystem {
   private static initialized = false;
 
   static initialize() {
-    // Import here to avoid circular dependency
-    const { telemetryConfig } = require('./config');
-    
     if (this.initialized) {
       console.warn('Telemetry system already initialized');
       return;
@@ -47,7 +46,7 @@ export class TelemetrySystem {
             logging: telemetryConfig.isLoggingEnabled(),
             tracing: telemetryConfig.isTracingEnabled(),
             metrics: telemetryConfig.isMetricsEnabled(),
-            errorTracking: telemetryConfig.isFeatureEnabled('errorTracking')
+            errorTracking: telemetryConfig.isErrorTrackingEnabled()
           }
         });
       }
@@ -2,6 +2,8 @@ import winston from 'winston';
 import DailyRotateFile from 'winston-daily-rotate-file';
 import path from 'path';
 import { trace, context } from '@opentelemetry/api';
+import { telemetryConfig } from './config';
+import { getRedactor } from './redaction';
 
 const { combine, timestamp, errors, json, printf, colorize, metadata } = winston.format;
 
@@ -19,6 +21,22 @@ interface LogContext {
   [key: string]: any;
 }
 
+// Winston's own fields; everything else on the entry is caller data
+const UNREDACTED_KEYS = new Set(['level', 'timestamp', 'label']);
+
+// Applies the redaction rules (see redaction.ts) while logging.sensitiveDataRedaction
+// is on. It is part of the logger's own format, so every transport sees the result.
+const redactSensitiveData = winston.format(info => {
+  if (!telemetryConfig.isRedactionEnabled()) {
+    return info;
+  }
+  const redactor = getRedactor();
+  Object.keys(info).filter(key => !UNREDACTED_KEYS.has(key)).forEach(key => {
+    info[key] = redactor.redact(info[key], [key]);
+  });
+  return info;
+});
+
 const developmentFormat = printf(({ level, message, timestamp, metadata, ...rest }) => {
   const span = trace.getActiveSpan();
   const spanContext = span?.spanContext();
@@ -61,11 +79,22 @@ class Logger {
   private logger: winston.Logger;
   private static instance: Logger;
 
+  // Level, transports and whether anything is logged at all come from TelemetryConfig;
+  // NODE_ENV only picks the console format
   private constructor() {
     const isDevelopment = process.env.NODE_ENV !== 'production';
+    const config = telemetryConfig.getConfig().logging;
     
-    const transports: winston.transport[] = [
-      new winston.transports.Console({
+    // stdio-based processes (the MCP server) own stdout, so every level goes to stderr
+    const stderrLevels = process.env.LOG_TO_STDERR === 'true'
+      ? Object.keys(winston.config.npm.levels)
+      : [];
+
+    const transports: winston.transport[] = [];
+
+    if (config.console) {
+      transports.push(new winston.transports.Console({
+        stderrLevels,
         format: isDevelopment ? 
           combine(
             colorize({ all: true }),
@@ -75,10 +104,10 @@ class Logger {
             developmentFormat
           ) : 
           productionFormat
-      })
-    ];
+      }));
+    }
 
-    if (!isDevelopment) {
+    if (config.files) {
       transports.push(
         createRotateTransport('error'),
         createRotateTransport('combined'),
@@ -95,25 +124,27 @@ class Logger {
     }
 
     this.logger = winston.createLogger({
-      level: process.env.LOG_LEVEL || (isDevelopment ? 'debug' : 'info'),
+      level: config.level,
+      silent: !telemetryConfig.isLoggingEnabled() || transports.length === 0,
       format: combine(
+        redactSensitiveData(),
         timestamp(),
         errors({ stack: true }),
         metadata({ fillExcept: ['message', 'level', 'timestamp', 'label'] })
       ),
       transports,
-      exceptionHandlers: [
+      exceptionHandlers: config.files ? [
         new winston.transports.File({ 
           filename: path.join(process.cwd(), 'logs', 'exceptions.log'),
           format: productionFormat
         })
-      ],
-      rejectionHandlers: [
+      ] : undefined,
+      rejectionHandlers: config.files ? [
         new winston.transports.File({ 
           filename: path.join(process.cwd(), 'logs', 'rejections.log'),
           format: productionFormat
         })
-      ]
+      ] : undefined
     });
   }
 
@@ -1,5 +1,6 @@
 import { register, collectDefaultMetrics, Counter, Histogram, Gauge, Summary } from 'prom-client';
 import { logger } from './logger';
+import { telemetryConfig } from './config';
 
 export class MetricsService {
   private static instance: MetricsService;
@@ -161,7 +162,7 @@ export class MetricsService {
   }
 
   private startResourceMonitoring() {
-    setInterval(() => {
+    const timer = setInterval(() => {
       const memUsage = process.memoryUsage();
       this.memoryUsage.set({ type: 'rss' }, memUsage.rss);
       this.memoryUsage.set({ type: 'heapTotal' }, memUsage.heapTotal);
@@ -172,6 +173,8 @@ export class MetricsService {
       const totalCpu = cpuUsage.user + cpuUsage.system;
       this.cpuUsage.set({ core: 'total' }, totalCpu / 1000000);
     }, 10000);
+    // Sampling alone shouldn't keep the process alive (CLI commands, tests)
+    timer.unref();
   }
 
   recordHttpRequest(method: string, route: string, statusCode: number, duration: number) {
@@ -195,16 +198,19 @@ export class MetricsService {
     );
   }
 
-  recordNewsItem(source: string, authorType: string) {
+  // category is the item's first tag (see newsCategory), so it stays within the curated taxonomy
+  recordNewsItem(source: string, authorType: string, category: string) {
     this.newsItemsTotal.inc({ source, author_type: authorType });
+    if (!telemetryConfig.isBusinessMetricsEnabled()) return;
     this.businessMetrics.newsPosted.inc({ 
       author_type: authorType, 
-      category: 'ai-news' 
+      category 
     });
   }
 
   recordVote(voteType: 'up' | 'down', voteSource: 'human' | 'machine') {
     this.votesTotal.inc({ vote_type: voteType, vote_source: voteSource });
+    if (!telemetryConfig.isBusinessMetricsEnabled()) return;
     this.businessMetrics.votescast.inc({ 
       vote_type: voteType, 
       source_type: voteSource 
@@ -212,6 +218,7 @@ export class MetricsService {
   }
 
   recordUserEngagement(userType: string, score: number) {
+    if (!telemetryConfig.isBusinessMetricsEnabled()) return;
     this.businessMetrics.userEngagement.observe({ user_type: userType }, score);
   }
 
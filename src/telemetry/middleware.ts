@@ -1,8 +1,10 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { logger } from './logger';
+import { telemetryConfig } from './config';
 import { metrics } from './metrics';
 import { tracing } from './tracing';
 import { errorTracker } from './errorTracking';
+import { getClientIp } from '../clientIp';
 import { SpanKind } from '@opentelemetry/api';
 import crypto from 'crypto';
 
@@ -27,9 +29,7 @@ export function loggingMiddleware(req: RequestWithTelemetry, res: Response, next
     method: req.method,
     path: req.path,
     query: req.query,
-    ip: (req.headers['x-forwarded-for'] as string)?.split(',')[0] || 
-        req.connection.remoteAddress || 
-        req.socket.remoteAddress,
+    ip: getClientIp(req),
     userAgent: req.headers['user-agent']
   };
 
@@ -74,7 +74,7 @@ export function tracingMiddleware(req: RequestWithTelemetry, res: Response, next
       'http.scheme': req.protocol,
       'http.user_agent': req.headers['user-agent'],
       'http.request_id': req.requestId,
-      'net.peer.ip': req.ip
+      'net.peer.ip': getClientIp(req)
     }
   });
 
@@ -118,7 +118,7 @@ export function errorHandlingMiddleware(err: Error, req: RequestWithTelemetry, r
   const context = errorTracker.extractRequestContext(req);
   context.requestId = req.requestId;
   
-  const errorId = errorTracker.trackError(err, context);
+  const errorId = telemetryConfig.isErrorTrackingEnabled() ? errorTracker.trackError(err, context) : undefined;
   
   logger.error('Request error', err, {
     ...context,
@@ -209,7 +209,7 @@ export function securityMiddleware(req: RequestWithTelemetry, res: Response, nex
       action: 'blocked',
       method: req.method,
       path: req.path,
-      ip: req.ip
+      ip: getClientIp(req)
     });
     
     metrics.httpRequestErrors.inc({
@@ -237,7 +237,7 @@ export function auditMiddleware(req: RequestWithTelemetry, res: Response, next:
         method: req.method,
         statusCode: res.statusCode,
         result: res.statusCode < 400 ? 'success' : 'failure',
-        ip: req.ip,
+        ip: getClientIp(req),
         userAgent: req.headers['user-agent']
       });
     });
@@ -246,60 +246,51 @@ export function auditMiddleware(req: RequestWithTelemetry, res: Response, next:
   next();
 }
 
-export function rateLimitMiddleware(windowMs: number = 60000, max: number = 100) {
-  const requests = new Map<string, { count: number; resetTime: number }>();
-  
-  return (req: RequestWithTelemetry, res: Response, next: NextFunction) => {
-    const ip = req.ip || 'unknown';
-    const now = Date.now();
-    
-    const record = requests.get(ip);
-    
-    if (!record || now > record.resetTime) {
-      requests.set(ip, {
-        count: 1,
-        resetTime: now + windowMs
-      });
-      return next();
-    }
-    
-    record.count++;
-    
-    if (record.count > max) {
-      metrics.recordRateLimitHit(req.path, ip.substring(0, ip.lastIndexOf('.')));
-      
-      logger.warn('Rate limit exceeded', {
-        ip,
-        count: record.count,
-        limit: max,
-        path: req.path
-      });
-      
-      return res.status(429).json({
-        error: 'Too many requests',
-        retryAfter: Math.ceil((record.resetTime - now) / 1000)
-      });
+type HealthCheck = () => Promise<Record<string, any>>;
+
+const healthChecks = new Map<string, HealthCheck>();
+
+// Dependency checks reported under `checks` on /health; any rejection marks the service unhealthy
+export function registerHealthCheck(name: string, check: HealthCheck) {
+  healthChecks.set(name, check);
+}
+
+async function runHealthChecks(): Promise<{ healthy: boolean; checks: Record<string, any> }> {
+  const checks: Record<string, any> = {};
+  let healthy = true;
+
+  for (const [name, check] of healthChecks) {
+    try {
+      checks[name] = { status: 'healthy', ...(await check()) };
+    } catch (error) {
+      healthy = false;
+      checks[name] = { status: 'unhealthy', error: error instanceof Error ? error.message : String(error) };
     }
-    
-    next();
-  };
+  }
+
+  return { healthy, checks };
 }
 
+// Each endpoint is only served when TelemetryConfig enables it; otherwise the path falls through
 export function healthCheckMiddleware(req: Request, res: Response, next: NextFunction) {
-  if (req.path === '/health') {
-    const health = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      uptime: process.uptime(),
-      memory: process.memoryUsage(),
-      cpu: process.cpuUsage(),
-      version: process.env.APP_VERSION || '1.0.0'
-    };
-    
-    return res.json(health);
+  if (req.path === '/health' && telemetryConfig.isEndpointEnabled('health')) {
+    runHealthChecks().then(({ healthy, checks }) => {
+      const health = {
+        status: healthy ? 'healthy' : 'unhealthy',
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        memory: process.memoryUsage(),
+        cpu: process.cpuUsage(),
+        version: process.env.APP_VERSION || '1.0.0',
+        checks
+      };
+
+      res.status(healthy ? 200 : 503).json(health);
+    });
+    return;
   }
   
-  if (req.path === '/metrics') {
+  if (req.path === '/metrics' && telemetryConfig.isEndpointEnabled('metrics')) {
     metrics.getMetrics().then(metricsData => {
       res.set('Content-Type', metrics.getContentType());
       res.send(metricsData);
@@ -307,10 +298,24 @@ export function healthCheckMiddleware(req: Request, res: Response, next: NextFun
     return;
   }
   
-  if (req.path === '/errors') {
+  if (req.path === '/errors' && telemetryConfig.isEndpointEnabled('errors')) {
     const errors = errorTracker.getStatistics();
     return res.json(errors);
   }
   
   next();
-}
\ No newline at end of file
+}
+
+// The per-request middleware, in order, for the features TelemetryConfig turns on.
+// Request ids are always assigned; error responses carry them.
+export function requestTelemetryMiddleware(): RequestHandler[] {
+  const enabled: Array<[boolean, RequestHandler]> = [
+    [true, requestIdMiddleware],
+    [telemetryConfig.isLoggingEnabled(), loggingMiddleware],
+    [telemetryConfig.isTracingEnabled(), tracingMiddleware],
+    [telemetryConfig.isMetricsEnabled(), metricsMiddleware],
+    [telemetryConfig.isPerformanceMonitoringEnabled(), performanceMiddleware],
+    [telemetryConfig.isSecurityFeatureEnabled('middleware'), securityMiddleware]
+  ];
+  return enabled.filter(([on]) => on).map(([, middleware]) => middleware);
+}
@@ -0,0 +1,167 @@
+import net from 'net';
+
+export interface RedactionPattern {
+  name: string;
+  // Must have the g flag; runs over every string value, including the message
+  pattern: RegExp;
+  // Called with the match and its groups, as String#replace calls a replacer
+  replacement: (match: string, ...groups: string[]) => string;
+}
+
+export interface RedactionRules {
+  // Keys masked at any depth; compared case-insensitively, ignoring '-' and '_'
+  fields: string[];
+  // Dotted paths from the root of the log entry; '*' matches any one key or array index
+  paths: string[];
+  patterns: RedactionPattern[];
+}
+
+export const REDACTED = '[REDACTED]';
+// Stands in for a reference back to an object that is still being walked
+export const CIRCULAR = '[Circular]';
+
+// Deeper values are replaced outright rather than walked
+const MAX_DEPTH = 8;
+
+export const DEFAULT_REDACTED_FIELDS = [
+  'ip', 'clientIp', 'voterIp', 'reporterIp', 'remoteAddress', 'x-forwarded-for', 'forwarded',
+  'authorization', 'cookie', 'set-cookie', 'x-api-key', 'apiKey', 'token', 'password', 'secret', 'email'
+];
+
+// Request bodies keep their keys, so it's still clear what was sent
+export const DEFAULT_REDACTED_PATHS = ['body.*'];
+
+export const DEFAULT_REDACTION_PATTERNS: RedactionPattern[] = [
+  {
+    name: 'api_key',
+    pattern: /\b(mbk_[0-9a-f]{16}_)[A-Za-z0-9_-]{43}/g,
+    replacement: (_match, keyId) => `${keyId}${REDACTED}`
+  },
+  {
+    name: 'bearer',
+    pattern: /\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi,
+    replacement: (_match, prefix) => `${prefix}${REDACTED}`
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+    replacement: () => REDACTED
+  },
+  {
+    name: 'url_secret',
+    pattern: /([?&](?:token|api_key|apikey|key|secret|password)=)[^&#\s]+/gi,
+    replacement: (_match, prefix) => `${prefix}${REDACTED}`
+  },
+  {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: () => '[EMAIL]'
+  },
+  {
+    // Hex groups joined by : or ::, or a leading :: (::1, ::ffff:192.0.2.1), standing
+    // alone rather than inside a word, so std::vector survives. Candidates are checked
+    // with net.isIPv6 so times like 12:30:45 do too; runs before ipv4 so IPv4-mapped
+    // addresses are masked whole.
+    name: 'ipv6',
+    pattern: /(?<![\w:])(?:[0-9A-Fa-f]{1,4}(?:::?[0-9A-Fa-f]{1,4}){1,7}|::[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4}){0,6})(?::\d{1,3}(?:\.\d{1,3}){3})?(?![\w:]|\.\d)/g,
+    replacement: match => net.isIPv6(match) ? '[IP]' : match
+  },
+  {
+    name: 'ipv4',
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    replacement: match => net.isIPv4(match) ? '[IP]' : match
+  }
+];
+
+function normalizeField(name: string): string {
+  return name.toLowerCase().replace(/[-_]/g, '');
+}
+
+function listEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// LOG_REDACT_FIELDS and LOG_REDACT_PATHS (comma-separated) add to the defaults
+export function loadRedactionRules(env: NodeJS.ProcessEnv = process.env): RedactionRules {
+  return {
+    fields: [...DEFAULT_REDACTED_FIELDS, ...listEnv(env.LOG_REDACT_FIELDS)],
+    paths: [...DEFAULT_REDACTED_PATHS, ...listEnv(env.LOG_REDACT_PATHS)],
+    patterns: DEFAULT_REDACTION_PATTERNS
+  };
+}
+
+export class Redactor {
+  private fields: Set<string>;
+  private paths: string[][];
+
+  constructor(private rules: RedactionRules) {
+    this.fields = new Set(rules.fields.map(normalizeField));
+    this.paths = rules.paths.map(path => path.split('.'));
+  }
+
+  redactString(value: string): string {
+    return this.rules.patterns.reduce(
+      (text, { pattern, replacement }) => text.replace(pattern, replacement),
+      value
+    );
+  }
+
+  // Returns a redacted copy; the input, which may belong to the caller, is left alone.
+  // path is where value sits in the log entry, for path rules.
+  redact(value: any, path: string[] = []): any {
+    return this.walk(value, path, new WeakSet());
+  }
+
+  // ancestors holds the objects between the root and value, so cycles end in CIRCULAR
+  // while an object that is merely referenced twice is redacted both times
+  private walk(value: any, path: string[], ancestors: WeakSet<object>): any {
+    if (path.length > 0 && this.isRedacted(path)) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (path.length >= MAX_DEPTH) {
+      return REDACTED;
+    }
+    if (value instanceof Date) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      return CIRCULAR;
+    }
+    if (value instanceof Error) {
+      const code = (value as NodeJS.ErrnoException).code;
+      return {
+        name: value.name,
+        message: this.redactString(value.message),
+        ...(code !== undefined ? { code } : {}),
+        stack: value.stack && this.redactString(value.stack)
+      };
+    }
+
+    ancestors.add(value);
+    const copy = Array.isArray(value)
+      ? value.map((item, index) => this.walk(item, [...path, String(index)], ancestors))
+      : Object.fromEntries(Object.entries(value).map(([key, field]) => [key, this.walk(field, [...path, key], ancestors)]));
+    ancestors.delete(value);
+    return copy;
+  }
+
+  private isRedacted(path: string[]): boolean {
+    return this.fields.has(normalizeField(path[path.length - 1])) ||
+      this.paths.some(rule => rule.length === path.length && rule.every((segment, i) => segment === '*' || segment === path[i]));
+  }
+}
+
+let defaultRedactor: Redactor | null = null;
+
+export function getRedactor(): Redactor {
+  if (!defaultRedactor) {
+    defaultRedactor = new Redactor(loadRedactionRules());
+  }
+  return defaultRedactor;
+}
@@ -1,9 +1,9 @@
 import { NodeSDK } from '@opentelemetry/sdk-node';
 import { getNodeAutoInstrumentations } from '@opentelemetry/auto-instrumentations-node';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
-import { ConsoleSpanExporter } from '@opentelemetry/sdk-trace-base';
 import { trace, context, SpanStatusCode, SpanKind, Span } from '@opentelemetry/api';
 import { logger } from './logger';
+import { telemetryConfig } from './config';
 
 export class TracingService {
   private sdk: NodeSDK | null = null;
@@ -21,15 +21,13 @@ export class TracingService {
   initialize() {
     const serviceName = process.env.SERVICE_NAME || 'agentic-ai-news';
     const otlpEndpoint = process.env.OTLP_ENDPOINT || 'http://localhost:4318/v1/traces';
-    const isDevelopment = process.env.NODE_ENV !== 'production';
+    const otlpEnabled = telemetryConfig.getConfig().tracing.otlpEnabled;
 
-    const traceExporter = process.env.OTLP_ENABLED === 'true' 
-      ? new OTLPTraceExporter({ url: otlpEndpoint })
-      : isDevelopment 
-        ? new ConsoleSpanExporter()
-        : undefined;
+    // Spans are only exported when OTLP is on; otherwise they stay in-process for trace ids in logs
+    const traceExporter = otlpEnabled ? new OTLPTraceExporter({ url: otlpEndpoint }) : undefined;
 
     this.sdk = new NodeSDK({
+      traceExporter,
       instrumentations: [
         getNodeAutoInstrumentations({
           '@opentelemetry/instrumentation-fs': {
@@ -49,8 +47,8 @@ export class TracingService {
       this.sdk.start();
       logger.info('OpenTelemetry tracing initialized', {
         serviceName,
-        otlpEnabled: process.env.OTLP_ENABLED === 'true',
-        endpoint: process.env.OTLP_ENABLED === 'true' ? otlpEndpoint : 'console'
+        otlpEnabled,
+        endpoint: otlpEnabled ? otlpEndpoint : 'none'
       });
     } catch (error: any) {
       logger.error('Failed to initialize OpenTelemetry', error);
@@ -0,0 +1,144 @@
+import { FlagReason, FLAG_REASONS } from './storage';
+import { parseTagList } from './tags';
+import { MAX_COMMENT_LENGTH } from './comments';
+import { MAX_AUTHOR_LENGTH } from './policy';
+
+export interface NewsSubmission {
+  summary: string;
+  link: string;
+  author: string;
+  tags: string[];
+}
+
+export interface ValidationError {
+  error: string;
+  [key: string]: any;
+}
+
+export interface FlagSubmission {
+  reason: FlagReason;
+  details: string | null;
+}
+
+export interface CommentSubmission {
+  body: string;
+  author: string;
+  // Null for a top-level comment
+  parentId: number | null;
+}
+
+export type ValidationResult<T = NewsSubmission> =
+  | { valid: true; value: T }
+  | { valid: false; error: ValidationError };
+
+// Shape checks shared by POST /news, the API and the MCP submit_news tool; limits on
+// the content itself (lengths, URL, domains, ...) are the content policy's job
+export function validateNewsSubmission(input: { summary?: unknown; link?: unknown; author?: unknown; tags?: unknown }): ValidationResult {
+  const { summary, link, author } = input;
+
+  if (!summary || !link) {
+    return {
+      valid: false,
+      error: {
+        error: 'Summary and link are required',
+        usage: 'POST /news with JSON body: {"summary": "text", "link": "https://...", "author": "optional_name", "tags": ["optional", "tags"]}'
+      }
+    };
+  }
+
+  if (typeof summary !== 'string' || typeof link !== 'string') {
+    return { valid: false, error: { error: 'Summary and link must be strings' } };
+  }
+
+  if (author && typeof author !== 'string') {
+    return { valid: false, error: { error: 'Author must be a string' } };
+  }
+
+  const tags = parseTagList(input.tags);
+  if (!tags) {
+    return { valid: false, error: { error: 'Tags must be a list of strings' } };
+  }
+
+  return {
+    valid: true,
+    value: {
+      summary: summary.trim(),
+      link: link.trim(),
+      author: typeof author === 'string' && author.trim() ? author.trim() : 'Anonymous',
+      tags
+    }
+  };
+}
+
+// Shared by POST /flag and the API's flag endpoint
+export function validateFlagSubmission(input: { reason?: unknown; details?: unknown }): ValidationResult<FlagSubmission> {
+  const { reason, details } = input;
+
+  if (!FLAG_REASONS.includes(reason as FlagReason)) {
+    return { valid: false, error: { error: `Reason must be one of ${FLAG_REASONS.join(', ')}` } };
+  }
+
+  if (details !== undefined && details !== null && typeof details !== 'string') {
+    return { valid: false, error: { error: 'Details must be a string' } };
+  }
+
+  if (typeof details === 'string' && details.length > 500) {
+    return {
+      valid: false,
+      error: {
+        error: 'Details must be 500 characters or less',
+        current_length: details.length
+      }
+    };
+  }
+
+  return {
+    valid: true,
+    value: {
+      reason: reason as FlagReason,
+      details: typeof details === 'string' && details.trim() ? details.trim() : null
+    }
+  };
+}
+
+// Shared by POST /news/:id/comments, the API and the MCP comment_news tool
+export function validateCommentSubmission(input: { body?: unknown; author?: unknown; parentId?: unknown }): ValidationResult<CommentSubmission> {
+  const { body, author, parentId } = input;
+
+  if (typeof body !== 'string' || !body.trim()) {
+    return { valid: false, error: { error: 'Comment body is required' } };
+  }
+
+  if (body.trim().length > MAX_COMMENT_LENGTH) {
+    return {
+      valid: false,
+      error: {
+        error: `Comments must be ${MAX_COMMENT_LENGTH} characters or less`,
+        current_length: body.trim().length
+      }
+    };
+  }
+
+  if (author !== undefined && author !== null && typeof author !== 'string') {
+    return { valid: false, error: { error: 'Author must be a string' } };
+  }
+
+  if (typeof author === 'string' && author.trim().length > MAX_AUTHOR_LENGTH) {
+    return { valid: false, error: { error: `Author must be ${MAX_AUTHOR_LENGTH} characters or less` } };
+  }
+
+  // Form fields arrive as strings; an empty one means a top-level comment
+  const parent = parentId === undefined || parentId === null || parentId === '' ? null : Number(parentId);
+  if (parent !== null && (!Number.isInteger(parent) || parent <= 0)) {
+    return { valid: false, error: { error: 'Parent comment id must be a positive integer' } };
+  }
+
+  return {
+    valid: true,
+    value: {
+      body: body.trim(),
+      author: typeof author === 'string' && author.trim() ? author.trim() : 'Anonymous',
+      parentId: parent
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { Comment } from '../database';
+import { acceptsReplies, MAX_COMMENT_LENGTH } from '../comments';
+import { MAX_AUTHOR_LENGTH } from '../policy';
+import { escapeHtml } from './news';
+
+// Each reply list holds one level of a thread: #comments-<item id> for the top level and
+// #replies-<comment id> under each comment. HTMX loads them a page at a time and appends
+// new comments to the end of the list they were posted to.
+
+// Which list a comment form posts into, and where its errors go
+function threadKey(newsId: number, parentId: number | null): string {
+  return parentId === null ? `comments-${newsId}` : `replies-${parentId}`;
+}
+
+export function commentErrorsTarget(newsId: number, parentId: number | null): string {
+  return `#${threadKey(newsId, parentId)}-errors`;
+}
+
+function repliesQuery(parentId: number | null, offset: number): string {
+  const params = [];
+  if (parentId !== null) {
+    params.push(`parent=${parentId}`);
+  }
+  if (offset > 0) {
+    params.push(`offset=${offset}`);
+  }
+  return params.length > 0 ? `?${params.join('&')}` : '';
+}
+
+export function generateCommentFormHtml(newsId: number, parentId: number | null): string {
+  const key = threadKey(newsId, parentId);
+  return `
+          <form class="comment-form" hx-post="/news/${newsId}/comments" hx-target="#${key}" hx-swap="beforeend" hx-on="htmx:afterRequest: if (event.detail.successful) this.reset()">
+            <div id="${key}-errors" class="comment-errors"></div>
+            <input type="hidden" name="parentId" value="${parentId ?? ''}">
+            <textarea name="body" maxlength="${MAX_COMMENT_LENGTH}" required placeholder="${parentId === null ? 'Add to the discussion' : 'Write a reply'}"></textarea>
+            <input type="text" name="author" maxlength="${MAX_AUTHOR_LENGTH}" placeholder="Author/Signature (optional)">
+            <button type="submit">${parentId === null ? 'Comment' : 'Reply'}</button>
+          </form>`;
+}
+
+export function generateCommentHtml(comment: Comment): string {
+  const deleted = comment.status === 'deleted';
+  const timestamp = new Date(comment.created_at).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+  const source = comment.comment_source === 'machine' ? 'machine' : 'organic';
+
+  // Replies load on demand; new ones are appended to the same list
+  const repliesButton = comment.reply_count > 0
+    ? `
+          <button class="replies-btn" hx-get="/news/${comment.news_item_id}/comments?parent=${comment.id}" hx-target="#replies-${comment.id}" hx-swap="innerHTML">${comment.reply_count === 1 ? '1 reply' : `${comment.reply_count} replies`}</button>`
+    : '';
+  const replyForm = acceptsReplies(comment)
+    ? `
+          <details class="reply-menu">
+            <summary>reply</summary>${generateCommentFormHtml(comment.news_item_id, comment.id)}
+          </details>`
+    : '';
+
+  return `
+      <div class="comment" id="comment-${comment.id}">
+        <div class="comment-meta">
+          <span class="author-signature">${deleted ? '[deleted]' : `by ${escapeHtml(comment.author)}`}</span>
+          <span class="comment-source ${source}">${source}</span>
+          <span class="timestamp">${timestamp}</span>
+        </div>
+        <p class="comment-body${deleted ? ' deleted' : ''}">${deleted ? 'This comment was removed.' : escapeHtml(comment.body)}</p>
+        <div class="comment-actions">${repliesButton}${replyForm}
+        </div>
+        <div class="comment-replies" id="replies-${comment.id}"></div>
+      </div>`;
+}
+
+// One page of a reply list, followed by a control that loads the next page when there is one
+export function generateCommentsHtml(comments: Comment[], newsId: number, parentId: number | null, nextOffset: number | null): string {
+  const html = comments.map(generateCommentHtml).join('');
+  if (nextOffset === null) {
+    return html;
+  }
+
+  return html + `
+      <div class="load-more">
+        <button class="replies-btn" hx-get="/news/${newsId}/comments${repliesQuery(parentId, nextOffset)}" hx-target="closest .load-more" hx-swap="outerHTML">More comments</button>
+      </div>`;
+}
+
+// The discussion on an item's page: the comment form and the first page of top-level comments
+export function generateDiscussionHtml(newsId: number, commentsHtml: string): string {
+  return `
+        <section class="comments-section">
+          <h2>Discussion</h2>${generateCommentFormHtml(newsId, null)}
+          <div class="comment-list" id="${threadKey(newsId, null)}">
+            <div class="no-comments">No comments yet.</div>${commentsHtml}
+          </div>
+        </section>`;
+}
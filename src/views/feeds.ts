@@ -0,0 +1,148 @@
+import { NewsItem, Tag } from '../database';
+import { ScoreBasis } from '../ranking';
+import { SCORE_BASIS_LABELS, listingQuery } from './news';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedContext {
+  sort: 'top' | 'new' | 'classic';
+  by: ScoreBasis;
+  // Set for a per-tag feed
+  tag: Tag | null;
+  baseUrl: string;
+  selfUrl: string;
+  updated: Date;
+}
+
+const SORT_TITLES = {
+  top: 'Top',
+  new: 'New',
+  classic: 'Classic'
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8'
+};
+
+// SQLite returns UTC timestamps as 'YYYY-MM-DD HH:MM:SS' without a zone marker,
+// which Date would otherwise parse as local time
+export function parseDbTimestamp(value: string | Date): Date {
+  if (value instanceof Date) return value;
+  const normalized = /[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value.replace(' ', 'T')}Z`;
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? new Date(0) : date;
+}
+
+export function escapeXml(unsafe: string): string {
+  return unsafe
+    // Control characters are not allowed anywhere in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function feedTitle(ctx: FeedContext): string {
+  const basis = ctx.sort === 'new' || ctx.by === 'blended' ? '' : ` (${SCORE_BASIS_LABELS[ctx.by]})`;
+  const topic = ctx.tag ? ` in ${ctx.tag.label}` : '';
+  return `mecha_board - ${SORT_TITLES[ctx.sort]}${basis}${topic}`;
+}
+
+function homePageUrl(ctx: FeedContext): string {
+  return `${ctx.baseUrl}/?${listingQuery(ctx.sort, ctx.by, ctx.tag?.slug)}`;
+}
+
+function itemId(item: NewsItem, ctx: FeedContext): string {
+  return `${ctx.baseUrl}/api/v1/news/${item.id}`;
+}
+
+function itemText(item: NewsItem): string {
+  return `${item.summary} (score: ${item.vote_score})`;
+}
+
+function renderRss(items: NewsItem[], ctx: FeedContext): string {
+  const entries = items.map(item => `
+    <item>
+      <title>${escapeXml(item.summary)}</title>
+      <link>${escapeXml(item.link)}</link>
+      <description>${escapeXml(itemText(item))}</description>
+      <dc:creator>${escapeXml(item.author)}</dc:creator>${(item.tags || []).map(tag => `
+      <category>${escapeXml(tag)}</category>`).join('')}
+      <guid isPermaLink="false">${escapeXml(itemId(item, ctx))}</guid>
+      <pubDate>${parseDbTimestamp(item.created_at).toUTCString()}</pubDate>
+    </item>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feedTitle(ctx))}</title>
+    <link>${escapeXml(homePageUrl(ctx))}</link>
+    <description>Latest developments in autonomous AI systems</description>
+    <atom:link href="${escapeXml(ctx.selfUrl)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${ctx.updated.toUTCString()}</lastBuildDate>${entries}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(items: NewsItem[], ctx: FeedContext): string {
+  const entries = items.map(item => {
+    const published = parseDbTimestamp(item.created_at).toISOString();
+    return `
+  <entry>
+    <id>${escapeXml(itemId(item, ctx))}</id>
+    <title>${escapeXml(item.summary)}</title>
+    <link href="${escapeXml(item.link)}"/>
+    <author><name>${escapeXml(item.author)}</name></author>${(item.tags || []).map(tag => `
+    <category term="${escapeXml(tag)}"/>`).join('')}
+    <published>${published}</published>
+    <updated>${published}</updated>
+    <summary>${escapeXml(itemText(item))}</summary>
+  </entry>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(ctx.selfUrl)}</id>
+  <title>${escapeXml(feedTitle(ctx))}</title>
+  <subtitle>Latest developments in autonomous AI systems</subtitle>
+  <link href="${escapeXml(ctx.selfUrl)}" rel="self"/>
+  <link href="${escapeXml(homePageUrl(ctx))}" rel="alternate" type="text/html"/>
+  <updated>${ctx.updated.toISOString()}</updated>${entries}
+</feed>
+`;
+}
+
+function renderJsonFeed(items: NewsItem[], ctx: FeedContext): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feedTitle(ctx),
+    home_page_url: homePageUrl(ctx),
+    feed_url: ctx.selfUrl,
+    description: 'Latest developments in autonomous AI systems',
+    items: items.map(item => ({
+      id: itemId(item, ctx),
+      url: item.link,
+      title: item.summary,
+      content_text: itemText(item),
+      date_published: parseDbTimestamp(item.created_at).toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.tags || [],
+      _mecha_board: { vote_score: item.vote_score }
+    }))
+  }, null, 2);
+}
+
+export function renderFeed(format: FeedFormat, items: NewsItem[], ctx: FeedContext): { body: string; contentType: string } {
+  const body = format === 'rss'
+    ? renderRss(items, ctx)
+    : format === 'atom'
+      ? renderAtom(items, ctx)
+      : renderJsonFeed(items, ctx);
+
+  return { body, contentType: CONTENT_TYPES[format] };
+}
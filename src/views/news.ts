@@ -0,0 +1,257 @@
+import DatabaseManager, { FlagReason, NewsItem, Tag, VoteCounts } from '../database';
+import { FLAG_REASONS } from '../storage';
+import { SCORE_BASES, ScoreBasis } from '../ranking';
+import { highlightTerms } from '../search';
+import { MAX_TAGS_PER_ITEM } from '../tags';
+
+const FLAG_LABELS: Record<FlagReason, string> = {
+  spam: 'spam',
+  off_topic: 'off topic',
+  broken_link: 'broken link',
+  duplicate: 'duplicate',
+  abuse: 'abusive',
+  other: 'other'
+};
+
+// Same wording as the vote groups on each item
+export const SCORE_BASIS_LABELS: Record<ScoreBasis, string> = {
+  blended: 'all votes',
+  human: 'organic',
+  machine: 'machine'
+};
+
+// Query string for a listing; the default blended basis and "every tag" are left out of URLs
+export function listingQuery(sort: string, by: ScoreBasis, tag?: string | null): string {
+  let query = `sort=${encodeURIComponent(sort)}`;
+  if (by !== 'blended') {
+    query += `&by=${by}`;
+  }
+  if (tag) {
+    query += `&tag=${encodeURIComponent(tag)}`;
+  }
+  return query;
+}
+
+export function escapeHtml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+// Inner markup of .vote-display; POST /vote swaps it in with innerHTML
+export function generateVoteDisplayHtml(newsId: number, voteCounts: VoteCounts): string {
+  return `
+          <div class="vote-group human-votes">
+            <span class="vote-label">organic</span>
+            <span class="vote-counts-inline">
+              <button
+                class="vote-btn-inline upvote"
+                onclick="createFirework(event, this)"
+                hx-post="/vote"
+                hx-vals='{"newsId": ${newsId}, "voteType": "up"}'
+                hx-target="#news-${newsId} .vote-display"
+                hx-swap="innerHTML">
+                ▲
+              </button>${voteCounts.human_upvotes}
+              <button
+                class="vote-btn-inline downvote"
+                onclick="createRedFirework(event, this)"
+                hx-post="/vote"
+                hx-vals='{"newsId": ${newsId}, "voteType": "down"}'
+                hx-target="#news-${newsId} .vote-display"
+                hx-swap="innerHTML">
+                ▼
+              </button>${voteCounts.human_downvotes}
+            </span>
+          </div>
+          <div class="vote-group machine-votes">
+            <span class="vote-label">machine <span class="machine-info-icon" title="Upvotes are done by MCP - get your AI to see all articles and upvote the ones it thinks you like">i</span></span>
+            <span class="vote-counts-inline">
+              <span class="vote-arrow-static">▲</span>${voteCounts.machine_upvotes}
+              <span class="vote-arrow-static">▼</span>${voteCounts.machine_downvotes}
+            </span>
+          </div>
+  `;
+}
+
+// POST /flag swaps the whole menu for the confirmation
+export function generateFlagMenuHtml(newsId: number, flagged: boolean = false): string {
+  if (flagged) {
+    return '<span class="flag-menu flagged">flagged</span>';
+  }
+
+  const buttons = FLAG_REASONS.map(reason => `
+            <button
+              class="flag-reason"
+              hx-post="/flag"
+              hx-vals='{"newsId": ${newsId}, "reason": "${reason}"}'
+              hx-target="#news-${newsId} .flag-menu"
+              hx-swap="outerHTML">${FLAG_LABELS[reason]}</button>`).join('');
+
+  return `
+          <details class="flag-menu">
+            <summary>flag</summary>
+            <span class="flag-reasons">${buttons}
+            </span>
+          </details>`;
+}
+
+export interface NewsHtmlOptions {
+  // Search terms to <mark> in summaries, authors and domains
+  highlight?: string[];
+  emptyMessage?: string;
+}
+
+export async function generateNewsHtml(newsItems: NewsItem[], db: DatabaseManager, options: NewsHtmlOptions = {}): Promise<string> {
+  if (newsItems.length === 0) {
+    return `<div class="no-news">${escapeHtml(options.emptyMessage || 'No news items yet. Be the first to post!')}</div>`;
+  }
+  const highlight = (text: string) => highlightTerms(text, options.highlight || [], escapeHtml);
+
+  // Vote counts and tags for the whole page come from a query each
+  const voteCounts = await db.getVoteCountsForItems(newsItems.map(item => item.id));
+  const tags = await db.getTagsForItems(newsItems.map(item => item.id));
+
+  return newsItems.map(item => {
+    let domain = '';
+    try {
+      domain = new URL(item.link).hostname.replace('www.', '');
+    } catch (e) {
+      domain = 'link';
+    }
+
+    // Create date only timestamp
+    const timestamp = new Date(item.created_at).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric'
+    });
+
+    return `
+    <div class="news-item" id="news-${item.id}" data-timestamp="${timestamp}">
+      <div class="news-content">
+        <div class="news-meta">
+          <span class="timestamp">${timestamp}</span>
+          <span class="author-signature">by ${highlight(item.author)}</span>
+          <a href="/news/${item.id}" class="comment-link">${commentCountLabel(item.comment_count || 0)}</a>${generateFlagMenuHtml(item.id)}
+        </div>
+        <p class="news-summary">${highlight(item.summary)}</p>${generateTagChipsHtml(tags.get(item.id)!)}
+        <a href="${escapeHtml(item.link)}" target="_blank" rel="noopener" class="news-link">
+          → ${highlight(domain)} ←
+        </a>
+      </div>
+      <div class="news-actions">
+        <div class="vote-display">${generateVoteDisplayHtml(item.id, voteCounts.get(item.id)!)}</div>
+      </div>
+    </div>
+  `;
+  }).join('');
+}
+
+export function commentCountLabel(count: number): string {
+  return count === 1 ? '1 comment' : `${count} comments`;
+}
+
+// Each tag links to the Top tab filtered by it
+function generateTagChipsHtml(slugs: string[]): string {
+  if (slugs.length === 0) {
+    return '';
+  }
+
+  const chips = slugs.map(slug =>
+    `<a href="/?${listingQuery('top', 'blended', slug)}" class="tag-chip">${escapeHtml(slug)}</a>`
+  );
+  return `
+        <div class="news-tags">${chips.join('')}</div>`;
+}
+
+// Swapped into the top of the feed when a submitted link is already on the board
+export function generateDuplicateNoticeHtml(existing: { id: number; summary: string } | null): string {
+  const target = existing
+    ? `: <a href="#news-${existing.id}">${escapeHtml(existing.summary)}</a>. Vote for it instead!`
+    : '.';
+  return `
+    <div class="board-notice">This link has already been posted${target}</div>
+  `;
+}
+
+// Swapped into the submit form's error slot; field names a form input when the error is about one
+export function generateFormErrorsHtml(errors: Array<{ field?: string; message: string }>): string {
+  const items = errors.map(error =>
+    `<li${error.field ? ` data-field="${escapeHtml(error.field)}"` : ''}>${escapeHtml(error.message)}</li>`
+  ).join('');
+  return `<ul class="form-errors">${items}</ul>`;
+}
+
+// Shown instead of the new item when submissions wait for review
+export function generatePendingNoticeHtml(): string {
+  return `
+    <div class="board-notice">Thanks! Your post will appear once a moderator has reviewed it.</div>
+  `;
+}
+
+export function generateLoadMoreHtml(sort: string, by: ScoreBasis, nextCursor: string | null, tag?: string | null): string {
+  if (!nextCursor) {
+    return '';
+  }
+
+  const query = `${listingQuery(sort, by, tag)}&cursor=${encodeURIComponent(nextCursor)}`;
+  return `
+    <div class="load-more" hx-get="/news-feed?${query}" hx-trigger="revealed" hx-swap="outerHTML">
+      <a href="/?${query}">Load more</a>
+    </div>
+  `;
+}
+
+export function generateSearchMoreHtml(q: string, nextOffset: number | null): string {
+  if (nextOffset === null) {
+    return '';
+  }
+
+  const query = `q=${encodeURIComponent(q)}&offset=${nextOffset}`;
+  return `
+    <div class="load-more" hx-get="/search-feed?${query}" hx-trigger="revealed" hx-swap="outerHTML">
+      <a href="/search?${query}">Load more</a>
+    </div>
+  `;
+}
+
+// Which votes the Top and Classic tabs rank by; 'new' ignores votes
+export function generateScoreBasisNavHtml(sort: string, by: ScoreBasis, tag?: string | null): string {
+  if (sort === 'new') {
+    return '';
+  }
+
+  const links = SCORE_BASES.map(basis =>
+    `<a href="/?${listingQuery(sort, basis, tag)}" class="basis-btn ${basis === by ? 'active' : ''}">${SCORE_BASIS_LABELS[basis]}</a>`
+  );
+  return `<div class="score-basis-navigation">${links.join('')}</div>`;
+}
+
+// Narrows the current tab to one tag; the sort and score basis carry over
+export function generateTagNavHtml(sort: string, by: ScoreBasis, tags: Tag[], activeTag: string | null): string {
+  if (tags.length === 0) {
+    return '';
+  }
+
+  const link = (tag: string | null, label: string) =>
+    `<a href="/?${listingQuery(sort, by, tag)}" class="tag-btn ${tag === activeTag ? 'active' : ''}">${escapeHtml(label)}</a>`;
+  return `<div class="tag-navigation">${link(null, 'All topics')}${tags.map(tag => link(tag.slug, tag.label)).join('')}</div>`;
+}
+
+// Checkboxes for the submit form; POST /news accepts any number of tags fields
+export function generateTagFieldHtml(tags: Tag[]): string {
+  if (tags.length === 0) {
+    return '';
+  }
+
+  const options = tags.map(tag => `
+                    <label class="tag-option"><input type="checkbox" name="tags" value="${escapeHtml(tag.slug)}"> ${escapeHtml(tag.label)}</label>`);
+  return `
+                <fieldset class="form-group tag-options">
+                    <legend>Tags (up to ${MAX_TAGS_PER_ITEM}):</legend>${options.join('')}
+                </fieldset>`;
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import DatabaseManager, { Voter } from './database';
+import { EXPIRED_VOTER_PREFIX } from './storage';
+import { logger } from './telemetry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface VoterIdentityConfig {
+  secret: string;
+  // How long one salt is used; ids for the same address differ between periods
+  saltRotationDays: number;
+  // Age after which the retention job strips voter ids from votes and flags
+  retentionDays: number;
+}
+
+function envDays(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = Number(env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Without VOTER_ID_SECRET the key is random per process, so votes cast before a
+// restart no longer match their voter afterwards
+export function loadVoterIdentityConfig(env: NodeJS.ProcessEnv = process.env): VoterIdentityConfig {
+  let secret = env.VOTER_ID_SECRET;
+  if (!secret) {
+    logger.warn('VOTER_ID_SECRET is not set; using a random key, so repeat votes are only caught until the next restart');
+    secret = crypto.randomBytes(32).toString('hex');
+  }
+
+  return {
+    secret,
+    saltRotationDays: envDays(env, 'VOTER_ID_SALT_ROTATION_DAYS', 30),
+    retentionDays: envDays(env, 'VOTE_RETENTION_DAYS', 90)
+  };
+}
+
+// People are identified by hmac(salt, client IP), where the salt is derived from the
+// secret and the current rotation period. The raw address is never stored, and ids
+// from different periods can't be linked without the secret.
+export class VoterIdentity {
+  constructor(private config: VoterIdentityConfig) {}
+
+  // Current id first, then the ids from earlier periods that may still be on
+  // unexpired votes; anything older has been stripped by the retention job
+  identify(ip: string, now: number = Date.now()): string[] {
+    const rotationMs = this.config.saltRotationDays * DAY_MS;
+    const current = Math.floor(now / rotationMs);
+    const oldest = Math.floor((now - this.config.retentionDays * DAY_MS) / rotationMs);
+
+    const ids: string[] = [];
+    for (let period = current; period >= oldest; period--) {
+      const salt = crypto.createHmac('sha256', this.config.secret).update(`voter-salt:${period}`).digest();
+      ids.push(`hmac:${crypto.createHmac('sha256', salt).update(ip).digest('hex').substring(0, 32)}`);
+    }
+    return ids;
+  }
+
+  humanVoter(ip: string, now: number = Date.now()): Voter {
+    const [id, ...previousIds] = this.identify(ip, now);
+    return { id, source: 'human', previousIds };
+  }
+
+  // ISO 8601 cutoff for expireVoterIds
+  retentionCutoff(now: number = Date.now()): string {
+    return new Date(now - this.config.retentionDays * DAY_MS).toISOString();
+  }
+}
+
+let defaultIdentity: VoterIdentity | null = null;
+
+export function getVoterIdentity(): VoterIdentity {
+  if (!defaultIdentity) {
+    defaultIdentity = new VoterIdentity(loadVoterIdentityConfig());
+  }
+  return defaultIdentity;
+}
+
+// The voter for a person at this client address; also the reporter id for their flags
+export function humanVoter(ip: string): Voter {
+  return getVoterIdentity().humanVoter(ip);
+}
+
+export function isExpiredVoterId(id: string): boolean {
+  return id.startsWith(EXPIRED_VOTER_PREFIX);
+}
+
+export async function expireOldVoterIds(db: DatabaseManager, identity: VoterIdentity = getVoterIdentity()): Promise<{ votes: number; flags: number; comments: number; submissions: number }> {
+  const expired = await db.expireVoterIds(identity.retentionCutoff());
+  if (expired.votes > 0 || expired.flags > 0 || expired.comments > 0 || expired.submissions > 0) {
+    logger.info('Expired old voter ids', expired);
+  }
+  return expired;
+}
+
+// Runs the retention job now and then hourly; returns a function that stops it
+export function startVoterIdRetention(db: DatabaseManager, identity: VoterIdentity = getVoterIdentity()): () => void {
+  const run = () => expireOldVoterIds(db, identity).catch(error => {
+    logger.error('Voter id retention failed', error);
+  });
+
+  run();
+  const timer = setInterval(run, RETENTION_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
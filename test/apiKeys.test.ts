@@ -0,0 +1,40 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import DatabaseManager from '../src/database';
+import { MemoryNewsStore } from '../src/storage/memoryStore';
+import { ApiKeyError, issueApiKey, resolveRequestApiKey } from '../src/apiKeys';
+
+function request(authorization?: string): Request {
+  return { headers: authorization ? { authorization } : {} } as unknown as Request;
+}
+
+describe('resolveRequestApiKey', () => {
+  test('looks each request up once, however often it is asked', async () => {
+    const db = new DatabaseManager({ store: new MemoryNewsStore() });
+    await db.ready;
+    const { token } = await issueApiKey(db, 'owner', 'agent', ['vote']);
+
+    let touches = 0;
+    const touch = db.touchApiKey.bind(db);
+    db.touchApiKey = async id => { touches++; return touch(id); };
+
+    const req = request(`Bearer ${token}`);
+    const [first, second] = await Promise.all([resolveRequestApiKey(req, db), resolveRequestApiKey(req, db)]);
+    assert.equal(first!.key_id, second!.key_id);
+    assert.equal(touches, 1);
+
+    await resolveRequestApiKey(request(`Bearer ${token}`), db);
+    assert.equal(touches, 2);
+  });
+
+  test('rejects a bad key every time it is asked', async () => {
+    const db = new DatabaseManager({ store: new MemoryNewsStore() });
+    await db.ready;
+    const req = request(`Bearer mbk_0123456789abcdef_${'a'.repeat(43)}`);
+
+    await assert.rejects(resolveRequestApiKey(req, db), ApiKeyError);
+    await assert.rejects(resolveRequestApiKey(req, db), ApiKeyError);
+    assert.equal(await resolveRequestApiKey(request(), db), null);
+  });
+});
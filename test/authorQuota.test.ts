@@ -0,0 +1,88 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DatabaseManager, { Voter } from '../src/database';
+import { NewsStore } from '../src/storage';
+import { SqliteNewsStore } from '../src/storage/sqliteStore';
+import { MemoryNewsStore } from '../src/storage/memoryStore';
+import { PolicyViolationError, createContentPolicy, loadPolicyConfig } from '../src/policy';
+
+const human = (id: string, previousIds: string[] = []): Voter => ({ id, source: 'human', previousIds });
+const agent = (apiKeyId: number): Voter => ({ id: `key:${apiKeyId}`, source: 'machine', apiKeyId });
+
+function describeStore(name: string, createStore: () => NewsStore, cleanup: () => void = () => {}) {
+  describe(`author quota on the ${name} store`, () => {
+    let db: DatabaseManager;
+    let posts = 0;
+
+    function post(author: string, submitter: Voter) {
+      posts++;
+      return db.addNewsItem(`Submission ${posts}`, `https://example.com/${name}/quota/${posts}`, author, submitter);
+    }
+
+    function assertOverQuota(promise: Promise<unknown>) {
+      return assert.rejects(
+        promise,
+        (error: unknown) => error instanceof PolicyViolationError && error.violations.some(violation => violation.rule === 'author_quota')
+      );
+    }
+
+    before(async () => {
+      db = new DatabaseManager({
+        store: createStore(),
+        policy: createContentPolicy({ ...loadPolicyConfig({}), authorQuota: 2, authorQuotaWindowHours: 24 })
+      });
+      await db.ready;
+    });
+
+    after(async () => {
+      await db.close();
+      cleanup();
+    });
+
+    test('counts people by address, whatever name they post under', async () => {
+      await post('alice', human('hmac:one'));
+      await post('Anonymous', human('hmac:one'));
+      await assertOverQuota(post('someone-else', human('hmac:one')));
+    });
+
+    test('does not charge a name to everyone who types it', async () => {
+      await post('bob', human('hmac:two'));
+      await post('bob', human('hmac:two'));
+      await post('bob', human('hmac:three'));
+    });
+
+    test('counts posts made under an earlier salt', async () => {
+      await post('carol', human('hmac:four-old'));
+      await post('carol', human('hmac:four', ['hmac:four-old']));
+      await assertOverQuota(post('carol', human('hmac:four', ['hmac:four-old'])));
+    });
+
+    test('counts API keys by key', async () => {
+      await post('agent', agent(41));
+      await post('another-agent', agent(41));
+      await assertOverQuota(post('agent', agent(41)));
+      await post('agent', agent(42));
+    });
+
+    test('expires human submitter ids and keeps key ids', async () => {
+      const humanId = await post('dave', human('hmac:five'));
+      const agentId = await post('agent', agent(43));
+
+      const expired = await db.expireVoterIds(new Date(Date.now() + 60000).toISOString());
+      assert.ok(expired.submissions >= 1);
+      assert.equal((await db.getNewsItemById(humanId))!.submitter_id, `expired:${humanId}`);
+      assert.equal((await db.getNewsItemById(agentId))!.submitter_id, 'key:43');
+    });
+  });
+}
+
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'author-quota-test-'));
+describeStore(
+  'sqlite',
+  () => new SqliteNewsStore(path.join(sqliteDir, 'quota.db')),
+  () => fs.rmSync(sqliteDir, { recursive: true, force: true })
+);
+describeStore('memory', () => new MemoryNewsStore());
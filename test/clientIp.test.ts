@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import { createClientIpResolver, normalizeIp, parseForwardingHeader, parseTrustedProxies } from '../src/clientIp';
+
+function request(remoteAddress: string, headers: Record<string, string> = {}): Request {
+  return { socket: { remoteAddress }, headers } as unknown as Request;
+}
+
+describe('createClientIpResolver', () => {
+  const behindLoopback = createClientIpResolver(parseTrustedProxies('loopback'));
+
+  test('ignores X-Forwarded-For from a peer that is not a trusted proxy', () => {
+    const resolve = createClientIpResolver(parseTrustedProxies(''));
+    assert.equal(resolve(request('203.0.113.7', { 'x-forwarded-for': '198.51.100.1' })), '203.0.113.7');
+    assert.equal(resolve(request('127.0.0.1', { 'x-forwarded-for': '198.51.100.1' })), '127.0.0.1');
+  });
+
+  test('stops at the first untrusted hop, so a spoofed leftmost entry is never used', () => {
+    // The client sent "X-Forwarded-For: 1.1.1.1"; the proxy appended the address it saw
+    const req = request('127.0.0.1', { 'x-forwarded-for': '1.1.1.1, 203.0.113.7' });
+    assert.equal(behindLoopback(req), '203.0.113.7');
+  });
+
+  test('walks through every trusted proxy in the chain', () => {
+    const resolve = createClientIpResolver(parseTrustedProxies('loopback, 10.0.0.0/8'));
+    const req = request('127.0.0.1', { 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.1.2.3' });
+    assert.equal(resolve(req), '203.0.113.7');
+  });
+
+  test('ignores a Forwarded header the client injected when proxies write X-Forwarded-For', () => {
+    const seen = ['198.51.100.1', '198.51.100.2', '198.51.100.3'].map(forged =>
+      behindLoopback(request('127.0.0.1', { 'x-forwarded-for': '10.9.9.9', forwarded: `for=${forged}` }))
+    );
+    assert.deepEqual(seen, ['10.9.9.9', '10.9.9.9', '10.9.9.9']);
+  });
+
+  test('reads only Forwarded when configured for it', () => {
+    const resolve = createClientIpResolver(parseTrustedProxies('loopback'), 'forwarded');
+    const req = request('127.0.0.1', {
+      'x-forwarded-for': '198.51.100.1',
+      forwarded: 'for=1.1.1.1, for="[2001:db8::1]:4711";proto=https'
+    });
+    assert.equal(resolve(req), '2001:db8::1');
+  });
+
+  test('normalizes IPv6 and IPv4-mapped peers and hops', () => {
+    assert.equal(behindLoopback(request('::ffff:203.0.113.7')), '203.0.113.7');
+    assert.equal(behindLoopback(request('2001:0DB8:0:0:0:0:0:0001')), '2001:db8::1');
+    assert.equal(behindLoopback(request('::1', { 'x-forwarded-for': '::ffff:198.51.100.1' })), '198.51.100.1');
+    assert.equal(behindLoopback(request('::ffff:127.0.0.1', { 'x-forwarded-for': '2001:db8:0:0::7' })), '2001:db8::7');
+  });
+
+  test('keeps the last trusted hop when the next one is not an address', () => {
+    const req = request('127.0.0.1', { 'x-forwarded-for': 'unknown' });
+    assert.equal(behindLoopback(req), '127.0.0.1');
+  });
+});
+
+describe('normalizeIp', () => {
+  test('strips ports, brackets and zone ids', () => {
+    assert.equal(normalizeIp('203.0.113.7:8080'), '203.0.113.7');
+    assert.equal(normalizeIp('[2001:db8::1]:443'), '2001:db8::1');
+    assert.equal(normalizeIp('fe80::1%eth0'), 'fe80::1');
+  });
+
+  test('rejects values that are not addresses', () => {
+    assert.equal(normalizeIp('_hidden'), null);
+    assert.equal(normalizeIp('std::vector'), null);
+  });
+});
+
+describe('parseForwardingHeader', () => {
+  test('accepts the two header names and nothing else', () => {
+    assert.equal(parseForwardingHeader('Forwarded'), 'forwarded');
+    assert.equal(parseForwardingHeader('x-forwarded-for'), 'x-forwarded-for');
+    assert.throws(() => parseForwardingHeader('x-real-ip'), /TRUSTED_PROXY_HEADER/);
+  });
+});
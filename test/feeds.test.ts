@@ -0,0 +1,56 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+// Set before the app loads; it reads both once
+process.env.DB_BACKEND = 'memory';
+process.env.PUBLIC_BASE_URL = 'https://news.example.org/';
+
+describe('feeds', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const { default: app } = await import('../src/server');
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const res = await fetch(`${baseUrl}/news`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ summary: 'Feeds link to the public address', link: 'https://example.com/feeds', author: 'test' })
+    });
+    assert.equal(res.status, 201);
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('builds links from PUBLIC_BASE_URL, not the Host header', async () => {
+    const res = await fetch(`${baseUrl}/feed.atom`, { headers: { Host: 'attacker.example' } });
+    const body = await res.text();
+    assert.equal(res.status, 200);
+    assert.doesNotMatch(body, /attacker\.example/);
+    assert.match(body, /href="https:\/\/news\.example\.org\/feed\.atom\?/);
+    assert.match(body, /https:\/\/news\.example\.org\/api\/v1\/news\/\d+/);
+  });
+
+  test('answers If-None-Match with 304 but ignores If-Modified-Since', async () => {
+    const first = await fetch(`${baseUrl}/feed.json`);
+    const etag = first.headers.get('etag');
+    assert.ok(etag);
+    assert.equal(first.headers.get('last-modified'), null);
+
+    // fetch adds Cache-Control: no-cache to conditional requests unless one is given
+    const revalidated = await fetch(`${baseUrl}/feed.json`, { headers: { 'If-None-Match': etag, 'Cache-Control': 'max-age=0' } });
+    assert.equal(revalidated.status, 304);
+
+    // A timestamp can't tell that scores moved, so only the ETag is trusted
+    const dated = await fetch(`${baseUrl}/feed.json`, {
+      headers: { 'If-Modified-Since': new Date(Date.now() + 86400000).toUTCString(), 'Cache-Control': 'max-age=0' }
+    });
+    assert.equal(dated.status, 200);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DatabaseManager from '../src/database';
+import { NewsStore } from '../src/storage';
+import { SqliteNewsStore } from '../src/storage/sqliteStore';
+import { MemoryNewsStore } from '../src/storage/memoryStore';
+import { canonicalizeLink, DuplicateLinkError } from '../src/links';
+
+describe('canonicalizeLink', () => {
+  // [submitted link, stored link, duplicate-detection key]
+  const cases: Array<[string, string, string]> = [
+    ['https://example.com/post', 'https://example.com/post', 'example.com/post'],
+    ['https://www.example.com/post', 'https://www.example.com/post', 'example.com/post'],
+    ['http://example.com/post', 'http://example.com/post', 'example.com/post'],
+    ['http://www.example.com/post/', 'http://www.example.com/post', 'example.com/post'],
+    ['https://example.com/post///', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com/', 'https://example.com/', 'example.com'],
+    ['https://example.com', 'https://example.com/', 'example.com'],
+    ['https://example.com/post#comments', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com/post?utm_source=feed&utm_medium=rss', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com/post?UTM_Campaign=launch', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com/post?fbclid=abc&gclid=def&ref_src=twsrc', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com/post?id=7&utm_source=feed', 'https://example.com/post?id=7', 'example.com/post?id=7'],
+    ['https://example.com/post?b=2&a=1', 'https://example.com/post?b=2&a=1', 'example.com/post?a=1&b=2'],
+    ['https://example.com/post?a=1&b=2', 'https://example.com/post?a=1&b=2', 'example.com/post?a=1&b=2'],
+    ['  https://example.com/post  ', 'https://example.com/post', 'example.com/post'],
+    ['https://EXAMPLE.com/post', 'https://example.com/post', 'example.com/post'],
+    ['https://example.com:8080/post', 'https://example.com:8080/post', 'example.com:8080/post'],
+    ['https://blog.example.com/post', 'https://blog.example.com/post', 'blog.example.com/post']
+  ];
+
+  for (const [input, link, canonical] of cases) {
+    test(`${JSON.stringify(input)} -> ${canonical}`, () => {
+      assert.deepEqual(canonicalizeLink(input), { link, canonical });
+    });
+  }
+
+  test('keeps parameters that change the page', () => {
+    const keys = [
+      'https://example.com/post?id=1',
+      'https://example.com/post?id=2',
+      'https://example.com/post?page=2',
+      'https://example.com/Post'
+    ].map(input => canonicalizeLink(input).canonical);
+    assert.equal(new Set(keys).size, keys.length);
+  });
+});
+
+function describeStore(name: string, createStore: () => NewsStore, cleanup: () => void = () => {}) {
+  describe(`duplicate links on the ${name} store`, () => {
+    let db: DatabaseManager;
+
+    before(async () => {
+      db = new DatabaseManager({ store: createStore() });
+      await db.ready;
+    });
+
+    after(async () => {
+      await db.close();
+      cleanup();
+    });
+
+    test('rejects every variant of a submitted link', async () => {
+      const id = await db.addNewsItem('Canonical links', 'https://www.example.com/canonical/?utm_source=feed#top', 'test');
+      assert.equal((await db.getNewsItemById(id))!.link, 'https://www.example.com/canonical');
+
+      for (const variant of [
+        'https://www.example.com/canonical',
+        'http://example.com/canonical/',
+        'https://example.com/canonical?fbclid=abc',
+        'https://example.com/canonical#comments'
+      ]) {
+        await assert.rejects(
+          db.addNewsItem('Same link again', variant, 'test'),
+          (error: unknown) => error instanceof DuplicateLinkError && error.existing.id === id,
+          variant
+        );
+      }
+    });
+
+    test('treats query order as the same link and other queries as new ones', async () => {
+      const id = await db.addNewsItem('Query order', 'https://example.com/search?b=2&a=1', 'test');
+      await assert.rejects(db.addNewsItem('Query order again', 'https://example.com/search?a=1&b=2', 'test'), DuplicateLinkError);
+      assert.notEqual(await db.addNewsItem('Another query', 'https://example.com/search?a=1&b=3', 'test'), id);
+    });
+  });
+}
+
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'links-test-'));
+describeStore(
+  'sqlite',
+  () => new SqliteNewsStore(path.join(sqliteDir, 'links.db')),
+  () => fs.rmSync(sqliteDir, { recursive: true, force: true })
+);
+describeStore('memory', () => new MemoryNewsStore());
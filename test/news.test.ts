@@ -0,0 +1,38 @@
+import { describe, test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import DatabaseManager from '../src/database';
+import { MemoryNewsStore } from '../src/storage/memoryStore';
+import { toPublicNewsItem } from '../src/news';
+
+describe('toPublicNewsItem', () => {
+  let db: DatabaseManager;
+
+  before(async () => {
+    db = new DatabaseManager({ store: new MemoryNewsStore(), scoreWeights: { human: 1, machine: 1 } });
+    await db.ready;
+  });
+
+  test('drops the submitter, its API key and the canonical link', async () => {
+    const newsId = await db.addNewsItem('Agents file their own bug reports', 'https://example.com/agents?utm_source=feed', 'test', { id: 'key:7', source: 'machine', apiKeyId: 7 });
+    const [item] = await db.attachItemDetails([(await db.getNewsItemById(newsId))!]);
+    assert.equal(item.api_key_id, 7);
+    assert.equal(item.submitter_id, 'key:7');
+    assert.ok(item.canonical_url);
+
+    const published = toPublicNewsItem(item);
+    assert.ok(!('api_key_id' in published));
+    assert.ok(!('canonical_url' in published));
+    assert.ok(!('submitter_id' in published));
+    assert.doesNotMatch(JSON.stringify(published), /api_key_id|canonical_url|submitter_id/);
+  });
+
+  test('keeps everything readers see', async () => {
+    const newsId = await db.addNewsItem('Votes by source', 'https://example.com/votes', 'test');
+    const [item] = await db.attachItemDetails([(await db.getNewsItemById(newsId))!]);
+    const { api_key_id, canonical_url, submitter_id, ...expected } = item;
+
+    assert.deepEqual(toPublicNewsItem(item), expected);
+    assert.equal(toPublicNewsItem(item).link, 'https://example.com/votes');
+    assert.ok('human_upvotes' in toPublicNewsItem(item));
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+// Production with nothing overridden; set before the app (and its telemetry config) loads
+process.env.NODE_ENV = 'production';
+process.env.DB_BACKEND = 'memory';
+['TELEMETRY_MODE', 'DISABLE_TELEMETRY', 'LOG_LEVEL', 'OTLP_ENABLED'].forEach(name => delete process.env[name]);
+
+describe('production defaults', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const { default: app } = await import('../src/server');
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('keeps the health check', async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    assert.equal(res.status, 200);
+  });
+
+  test('serves no metrics, error or debug endpoints', async () => {
+    const requests: Array<[string, string]> = [
+      ['GET', '/metrics'],
+      ['GET', '/errors'],
+      ['GET', '/debug'],
+      ['POST', '/debug/dump']
+    ];
+    for (const [method, path] of requests) {
+      const res = await fetch(`${baseUrl}${path}`, { method });
+      assert.equal(res.status, 404, `${method} ${path}`);
+    }
+  });
+
+  test('answers errors without stack traces or internal messages', async () => {
+    const { default: DatabaseManager } = await import('../src/database');
+    const getNewsItemById = DatabaseManager.prototype.getNewsItemById;
+    DatabaseManager.prototype.getNewsItemById = async () => {
+      throw new Error('boom in /srv/app/src/storage/sqlStore.ts');
+    };
+
+    try {
+      const res = await fetch(`${baseUrl}/api/v1/news/1`);
+      const body = await res.text();
+      assert.equal(res.status, 500);
+      assert.equal(JSON.parse(body).error.message, 'Internal Server Error');
+      assert.doesNotMatch(body, /boom|sqlStore|\bat \w|stack/);
+    } finally {
+      DatabaseManager.prototype.getNewsItemById = getNewsItemById;
+    }
+
+    // Malformed JSON goes through the app-wide error handler
+    const res = await fetch(`${baseUrl}/news`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"summary":'
+    });
+    const body = await res.text();
+    assert.equal(res.status, 400);
+    assert.doesNotMatch(body, /stack|node_modules|\bat \w/);
+  });
+});
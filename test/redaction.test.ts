@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CIRCULAR, REDACTED, Redactor, loadRedactionRules } from '../src/telemetry/redaction';
+
+const redactor = new Redactor(loadRedactionRules({}));
+
+describe('Redactor.redactString', () => {
+  test('masks emails and addresses inside text', () => {
+    assert.equal(redactor.redactString('mail ann@example.org from 203.0.113.7'), 'mail [EMAIL] from [IP]');
+    assert.equal(redactor.redactString('peer 2001:db8::1 and ::1'), 'peer [IP] and [IP]');
+    assert.equal(redactor.redactString('mapped ::ffff:192.0.2.1.'), 'mapped [IP].');
+    assert.equal(redactor.redactString('[fe80::1%eth0]:443'), '[[IP]%eth0]:443');
+  });
+
+  test('masks credentials but keeps the key id', () => {
+    const token = `mbk_0123456789abcdef_${'a'.repeat(43)}`;
+    assert.equal(redactor.redactString(`key ${token}`), `key mbk_0123456789abcdef_${REDACTED}`);
+    assert.equal(redactor.redactString('Authorization: Bearer abc.def'), `Authorization: Bearer ${REDACTED}`);
+    assert.equal(redactor.redactString('/feed?token=s3cret&sort=new'), `/feed?token=${REDACTED}&sort=new`);
+  });
+
+  test('leaves ordinary text alone', () => {
+    const unchanged = [
+      'std::vector<int> grew',
+      'Foo::Bar::baz() failed',
+      'started at 12:30:45',
+      'version 1.2.3 of lib::io',
+      'ratio 3:2, see RFC 7239'
+    ];
+    unchanged.forEach(text => assert.equal(redactor.redactString(text), text));
+  });
+});
+
+describe('Redactor.redact', () => {
+  test('masks sensitive keys at any depth, in objects and arrays', () => {
+    const entry = {
+      headers: { Authorization: 'Bearer abc', 'X-Forwarded-For': '198.51.100.1', accept: 'text/html' },
+      users: [{ name: 'ann', password: 'hunter2' }, { name: 'bob', api_key: 'k' }],
+      nested: { deeper: { clientIp: '10.0.0.1', note: 'reach me at bob@example.org' } }
+    };
+
+    assert.deepEqual(redactor.redact(entry), {
+      headers: { Authorization: REDACTED, 'X-Forwarded-For': REDACTED, accept: 'text/html' },
+      users: [{ name: 'ann', password: REDACTED }, { name: 'bob', api_key: REDACTED }],
+      nested: { deeper: { clientIp: REDACTED, note: 'reach me at [EMAIL]' } }
+    });
+    // The caller's object is untouched
+    assert.equal(entry.users[0].password, 'hunter2');
+  });
+
+  test('masks request bodies by path but keeps their keys', () => {
+    assert.deepEqual(redactor.redact({ body: { summary: 'x', link: 'y' } }), { body: { summary: REDACTED, link: REDACTED } });
+  });
+
+  test('turns errors into plain objects, keeping the code', () => {
+    const error = Object.assign(new Error('connect ECONNREFUSED 10.0.0.5:5432'), { code: 'ECONNREFUSED' });
+    const redacted = redactor.redact({ error });
+
+    assert.equal(redacted.error.name, 'Error');
+    assert.equal(redacted.error.message, 'connect ECONNREFUSED [IP]:5432');
+    assert.equal(redacted.error.code, 'ECONNREFUSED');
+    assert.ok(!redacted.error.stack.includes('10.0.0.5'));
+  });
+
+  test('replaces cycles and keeps shared references', () => {
+    const shared = { email: 'ann@example.org' };
+    const entry: any = { a: shared, b: shared, list: [] };
+    entry.self = entry;
+    entry.list.push(entry.list);
+
+    assert.deepEqual(redactor.redact(entry), {
+      a: { email: REDACTED },
+      b: { email: REDACTED },
+      list: [CIRCULAR],
+      self: CIRCULAR
+    });
+  });
+
+  test('adds fields and paths from the environment', () => {
+    const custom = new Redactor(loadRedactionRules({ LOG_REDACT_FIELDS: 'sessionId', LOG_REDACT_PATHS: 'meta.*.owner' }));
+    assert.deepEqual(
+      custom.redact({ session_id: 's', meta: { item: { owner: 'o', id: 1 } } }),
+      { session_id: REDACTED, meta: { item: { owner: REDACTED, id: 1 } } }
+    );
+  });
+});
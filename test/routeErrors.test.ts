@@ -0,0 +1,71 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import DatabaseManager from '../src/database';
+
+process.env.DB_BACKEND = 'memory';
+
+// Makes one DatabaseManager method fail for the duration of fn
+async function withFailing(method: keyof DatabaseManager & string, fn: () => Promise<void>) {
+  const prototype = DatabaseManager.prototype as unknown as Record<string, unknown>;
+  const original = prototype[method];
+  prototype[method] = async () => {
+    throw new Error(`${method} failed`);
+  };
+  try {
+    await fn();
+  } finally {
+    prototype[method] = original;
+  }
+}
+
+// A store failure must end the request with a 500, not leave an HTMX control waiting
+describe('route errors', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const { default: app } = await import('../src/server');
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('POST /flag answers 500 when the flag cannot be stored', async () => {
+    await withFailing('flagNewsItem', async () => {
+      const res = await fetch(`${baseUrl}/flag`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'HX-Request': 'true' },
+        body: JSON.stringify({ newsId: 1, reason: 'spam' }),
+        signal: AbortSignal.timeout(5000)
+      });
+      assert.equal(res.status, 500);
+      assert.equal((await res.json() as { error: string }).error, 'Error flagging news item');
+    });
+  });
+
+  test('GET /news/:id answers 500 when the item cannot be loaded', async () => {
+    await withFailing('getNewsItemById', async () => {
+      const res = await fetch(`${baseUrl}/news/1`, { signal: AbortSignal.timeout(5000) });
+      assert.equal(res.status, 500);
+      assert.match(await res.text(), /Error loading news item/);
+    });
+  });
+
+  test('POST /news/:id/comments answers 500 when the comment cannot be stored', async () => {
+    await withFailing('addComment', async () => {
+      const res = await fetch(`${baseUrl}/news/1/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: 'A comment that will not be stored' }),
+        signal: AbortSignal.timeout(5000)
+      });
+      assert.equal(res.status, 500);
+      assert.equal((await res.json() as { error: string }).error, 'Error adding comment');
+    });
+  });
+});
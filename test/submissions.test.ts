@@ -0,0 +1,88 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import DatabaseManager from '../src/database';
+import { issueApiKey } from '../src/apiKeys';
+
+// The app opens agentic_news.db in the working directory; this suite shares it through
+// a second connection to issue keys and read back what was stored
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'submissions-test-'));
+process.chdir(dataDir);
+process.env.DB_BACKEND = 'sqlite';
+process.env.RATE_LIMIT_SUBMIT_MAX = '1000';
+
+describe('POST /news', () => {
+  let server: Server;
+  let baseUrl: string;
+  let db: DatabaseManager;
+  let posts = 0;
+
+  function submit(headers: Record<string, string> = {}) {
+    posts++;
+    return fetch(`${baseUrl}/news`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ summary: `Submission ${posts}`, link: `https://example.com/submissions/${posts}`, author: 'test' })
+    });
+  }
+
+  before(async () => {
+    // Migrates the database before the app opens it, so the app finds nothing to do
+    db = new DatabaseManager();
+    await db.ready;
+
+    const { default: app } = await import('../src/server');
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await db.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('attributes posts made with a key to that key', async () => {
+    const { apiKey, token } = await issueApiKey(db, 'owner', 'agent', ['submit']);
+
+    const res = await submit({ Authorization: `Bearer ${token}` });
+    assert.equal(res.status, 201);
+    const { data } = await res.json() as { data: { id: number } };
+    assert.equal((await db.getNewsItemById(data.id))!.api_key_id, apiKey.id);
+  });
+
+  test('rejects keys without the submit scope', async () => {
+    const { token } = await issueApiKey(db, 'owner', 'agent', ['vote']);
+
+    const res = await submit({ Authorization: `Bearer ${token}` });
+    assert.equal(res.status, 403);
+    assert.equal((await res.json() as { error: string }).error, "API key lacks the 'submit' scope");
+  });
+
+  test('rejects malformed and revoked keys instead of posting anonymously', async () => {
+    const before = (await db.getAllNewsItems()).length;
+
+    const malformed = await submit({ Authorization: 'Bearer mbk_not-a-key' });
+    assert.equal(malformed.status, 401);
+
+    const { apiKey, token } = await issueApiKey(db, 'owner', 'agent', ['submit']);
+    await db.revokeApiKey(apiKey.key_id);
+    const revoked = await submit({ Authorization: `Bearer ${token}` });
+    assert.equal(revoked.status, 401);
+
+    assert.equal((await db.getAllNewsItems()).length, before);
+  });
+
+  test('still takes posts without a key', async () => {
+    const res = await submit();
+    assert.equal(res.status, 201);
+    const { data } = await res.json() as { data: { id: number } };
+    assert.equal((await db.getNewsItemById(data.id))!.api_key_id, null);
+  });
+});
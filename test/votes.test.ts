@@ -0,0 +1,109 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import DatabaseManager, { Voter } from '../src/database';
+import { NewsStore } from '../src/storage';
+import { SqliteNewsStore } from '../src/storage/sqliteStore';
+import { MemoryNewsStore } from '../src/storage/memoryStore';
+
+const human = (n: number): Voter => ({ id: `human-${n}`, source: 'human' });
+const machine = (n: number): Voter => ({ id: `key:${n}`, source: 'machine' });
+
+// What the counter columns should say, recounted from the vote rows
+async function countVoteRows(db: DatabaseManager, newsId: number) {
+  const votes = await db.getVoteHistory(newsId, { limit: 10000, offset: 0 });
+  const count = (source: string, type: string) =>
+    votes.filter(vote => vote.vote_source === source && vote.vote_type === type).length;
+  return {
+    votes,
+    counts: {
+      human_upvotes: count('human', 'up'),
+      human_downvotes: count('human', 'down'),
+      machine_upvotes: count('machine', 'up'),
+      machine_downvotes: count('machine', 'down')
+    }
+  };
+}
+
+async function assertCountersMatchRows(db: DatabaseManager, newsId: number) {
+  const { votes, counts } = await countVoteRows(db, newsId);
+  const item = (await db.getNewsItemById(newsId))!;
+
+  assert.deepEqual(await db.getVoteCounts(newsId), counts);
+  assert.equal(item.human_score, counts.human_upvotes - counts.human_downvotes);
+  assert.equal(item.machine_score, counts.machine_upvotes - counts.machine_downvotes);
+  assert.equal(item.vote_score, item.human_score + item.machine_score);
+  assert.equal(item.blended_score, item.human_score + item.machine_score);
+
+  // One vote per voter and source
+  const voters = votes.map(vote => `${vote.vote_source}:${vote.voter_ip}`);
+  assert.equal(new Set(voters).size, voters.length);
+}
+
+function describeStore(name: string, createStore: () => NewsStore, cleanup: () => void = () => {}) {
+  describe(`parallel votes on the ${name} store`, () => {
+    let db: DatabaseManager;
+    let newsId = 0;
+
+    before(async () => {
+      db = new DatabaseManager({ store: createStore(), scoreWeights: { human: 1, machine: 1 } });
+      await db.ready;
+    });
+
+    after(async () => {
+      await db.close();
+      cleanup();
+    });
+
+    test('counts every distinct voter exactly once', async () => {
+      newsId = await db.addNewsItem(`Parallel votes on ${name}`, `https://example.com/${name}/distinct`, 'test');
+
+      await Promise.all([
+        ...Array.from({ length: 40 }, (_, i) => db.setVote(newsId, 'up', human(i))),
+        ...Array.from({ length: 15 }, (_, i) => db.setVote(newsId, 'down', machine(i)))
+      ]);
+
+      assert.deepEqual(await db.getVoteCounts(newsId), {
+        human_upvotes: 40,
+        human_downvotes: 0,
+        machine_upvotes: 0,
+        machine_downvotes: 15
+      });
+      await assertCountersMatchRows(db, newsId);
+    });
+
+    test('keeps counters in line with the rows when the same voters race each other', async () => {
+      newsId = await db.addNewsItem(`Racing votes on ${name}`, `https://example.com/${name}/racing`, 'test');
+
+      // Every voter fires a toggle, a switch and a retraction at once; whichever order
+      // they land in, each leaves at most one row and the counters must agree with it
+      await Promise.all(Array.from({ length: 20 }, (_, i) => {
+        const voter = i % 2 === 0 ? human(i) : machine(i);
+        return Promise.all([
+          db.vote(newsId, 'up', voter),
+          db.setVote(newsId, 'down', voter),
+          db.vote(newsId, 'up', voter),
+          db.setVote(newsId, i % 3 === 0 ? null : 'up', voter)
+        ]);
+      }));
+
+      await assertCountersMatchRows(db, newsId);
+    });
+
+    test('leaves nothing for recomputeVoteCounters to correct', async () => {
+      const before = await db.getVoteCounts(newsId);
+      await db.recomputeVoteCounters();
+      assert.deepEqual(await db.getVoteCounts(newsId), before);
+    });
+  });
+}
+
+const sqliteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'votes-test-'));
+describeStore(
+  'sqlite',
+  () => new SqliteNewsStore(path.join(sqliteDir, 'votes.db')),
+  () => fs.rmSync(sqliteDir, { recursive: true, force: true })
+);
+describeStore('memory', () => new MemoryNewsStore());